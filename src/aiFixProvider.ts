@@ -0,0 +1,134 @@
+// aiFixProvider.ts
+import * as vscode from 'vscode';
+import { ContextService, OutlineSymbol } from './contextService';
+import { describeDiagnostic } from './problems';
+import { CodeBlockApplier, extractCodeBlock } from './codeBlockApplier';
+import { createLLMBackend, LLMError, LLMMessage } from './llmClient';
+import { getActiveProfile, toBackendSettings } from './profiles';
+
+// Largest enclosing symbol that is sent whole; bigger ones fall back to lines around the problem
+const MAX_SYMBOL_LINES = 80;
+const SURROUNDING_LINES = 10;
+
+// Offers "Fix with AI" on errors and warnings; the fix is previewed as a diff before it is applied
+export class AIFixProvider implements vscode.CodeActionProvider {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+    public static readonly command = 'aiCopilot.fixWithAI';
+
+    constructor(
+        private readonly contextService: ContextService,
+        private readonly codeBlockApplier: CodeBlockApplier
+    ) {}
+
+    public provideCodeActions(
+        document: vscode.TextDocument,
+        range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        return context.diagnostics
+            .filter(diagnostic => diagnostic.severity <= vscode.DiagnosticSeverity.Warning)
+            .map(diagnostic => {
+                const message = diagnostic.message.split('\n')[0];
+                const action = new vscode.CodeAction(
+                    `Fix with AI: ${message.length > 60 ? message.substring(0, 57) + '...' : message}`,
+                    vscode.CodeActionKind.QuickFix
+                );
+                action.diagnostics = [diagnostic];
+                action.command = {
+                    command: AIFixProvider.command,
+                    title: 'Fix with AI',
+                    arguments: [document.uri, diagnostic]
+                };
+                return action;
+            });
+    }
+
+    public async fix(uri: vscode.Uri, diagnostic: vscode.Diagnostic) {
+        const document = await vscode.workspace.openTextDocument(uri);
+        const version = document.version;
+        const fileContext = await this.contextService.getFileContext(document, diagnostic.range.start);
+        const symbol = this.pickEnclosingSymbol(fileContext.enclosingSymbols || []);
+
+        // Rewrite whole lines: the enclosing symbol, or the lines around the problem
+        const startLine = symbol ? symbol.range.start.line : Math.max(0, diagnostic.range.start.line - SURROUNDING_LINES);
+        const endLine = symbol ? symbol.range.end.line : Math.min(document.lineCount - 1, diagnostic.range.end.line + SURROUNDING_LINES);
+        const region = new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length);
+
+        const fileName = vscode.workspace.asRelativePath(uri);
+        const messages = this.buildMessages(document, fileName, diagnostic, region, symbol);
+
+        let code: string | undefined;
+        try {
+            code = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: 'Fixing with AI...', cancellable: true },
+                async (_, token) => {
+                    const abortController = new AbortController();
+                    token.onCancellationRequested(() => abortController.abort());
+
+                    const profile = getActiveProfile('chat');
+                    const response = await createLLMBackend(toBackendSettings(profile)).chat(messages, {
+                        model: profile.model,
+                        temperature: Math.min(profile.temperature, 0.2),
+                        maxTokens: profile.maxTokens,
+                        signal: abortController.signal
+                    });
+                    return extractCodeBlock(response.text) ?? response.text.replace(/\s+$/, '');
+                }
+            );
+        } catch (error) {
+            if (error instanceof LLMError && error.kind === 'cancelled') {
+                return;
+            }
+            vscode.window.showErrorMessage(`Fix with AI failed: ${error instanceof Error ? error.message : error}`);
+            return;
+        }
+
+        if (!code || code === document.getText(region).replace(/\s+$/, '')) {
+            vscode.window.showInformationMessage('The AI did not propose any change');
+            return;
+        }
+
+        await this.codeBlockApplier.proposeEdit(document, region, code, `${fileName} (lines ${startLine + 1}-${endLine + 1})`, version);
+    }
+
+    // The innermost enclosing symbol that is small enough to rewrite whole
+    private pickEnclosingSymbol(symbols: OutlineSymbol[]): OutlineSymbol | undefined {
+        return [...symbols]
+            .reverse()
+            .find(symbol => symbol.range.end.line - symbol.range.start.line < MAX_SYMBOL_LINES);
+    }
+
+    private buildMessages(
+        document: vscode.TextDocument,
+        fileName: string,
+        diagnostic: vscode.Diagnostic,
+        region: vscode.Range,
+        symbol: OutlineSymbol | undefined
+    ): LLMMessage[] {
+        const before = document.getText(new vscode.Range(Math.max(0, region.start.line - SURROUNDING_LINES), 0, region.start.line, 0));
+        const lastLine = Math.min(document.lineCount - 1, region.end.line + SURROUNDING_LINES);
+        const after = document.getText(new vscode.Range(region.end, new vscode.Position(lastLine, document.lineAt(lastLine).text.length)));
+
+        const parts = [
+            `File: ${fileName} (${document.languageId})`,
+            `Problem: ${describeDiagnostic(diagnostic, true)}`,
+            `Problem text: ${document.getText(diagnostic.range) || '(empty)'}`
+        ];
+        if (symbol) {
+            parts.push(`Enclosing ${symbol.kind.toLowerCase()}: ${symbol.name}${symbol.detail ? ` (${symbol.detail})` : ''}`);
+        }
+        parts.push(
+            `Code before the region (context only, do not repeat):\n\`\`\`\n${before}\n\`\`\``,
+            `Region to fix (lines ${region.start.line + 1}-${region.end.line + 1}):\n\`\`\`${document.languageId}\n${document.getText(region)}\n\`\`\``,
+            `Code after the region (context only, do not repeat):\n\`\`\`\n${after}\n\`\`\``
+        );
+
+        return [
+            {
+                role: 'system',
+                content: 'You fix problems reported by a compiler or linter. Reply with the corrected region only, in a single fenced code block, keeping its indentation and everything that does not need to change. Do not add explanations.'
+            },
+            { role: 'user', content: parts.join('\n\n') }
+        ];
+    }
+}
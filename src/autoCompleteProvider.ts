@@ -1,7 +1,15 @@
 // autoCompleteProvider.ts
 import * as vscode from 'vscode';
-import axios from 'axios';
-import { ContextService, EditHistory, ViewedSnippet, FileContext } from './contextService';
+import * as crypto from 'crypto';
+import { ContextService, EditHistory, ViewedSnippet, FileContext, OutlineSymbol } from './contextService';
+import { describeDiagnostic } from './problems';
+import { ImportedDefinitions } from './importResolver';
+import { BackendSettings, createLLMBackend, LLMBackend, LLMChoice, LLMError, LLMRequestOptions, LLMResponse } from './llmClient';
+import { FimFamily, getFimTemplate, MAX_OPENAI_STOP_SEQUENCES, truncateAtStop } from './fimTemplates';
+import { computeNextEdit, NextEdit, NextEditController, toGhostTextEdit } from './nextEditController';
+import { CompletionCache } from './completionCache';
+import { getActiveProfile, toBackendSettings } from './profiles';
+import { FALLBACK_TOKENIZER, Tokenizer, tokenizerService } from './tokenizer';
 import { AILogger } from './logger'; // TODO: to remove later
 
 // Prompt element interface for structured prompt building
@@ -9,11 +17,14 @@ interface PromptElement {
     priority: number;
     content: string;
     isBreak?: boolean;
+    pairId?: string; // Elements with the same pairId are kept or dropped together
     metadata?: any;
 }
 
 // Add this class to handle consistent formatting 
 class PromptFormatter {
+    private static nextPairId = 0;
+
     static singleBreak(): PromptElement {
         return { priority: 0, content: "", isBreak: true };
     }
@@ -27,27 +38,48 @@ class PromptFormatter {
     }
     
     static tagWrapper(content: string, tag: string, priority: number): PromptElement[] {
+        const pairId = `${tag}#${PromptFormatter.nextPairId++}`;
         return [
-            { priority, content: `<|${tag}|>` }, // Use <|tag|> syntax consistently
+            { priority, content: `<|${tag}|>`, pairId }, // Use <|tag|> syntax consistently
             PromptFormatter.singleBreak(),
             { priority: priority - 1, content: content },
             PromptFormatter.singleBreak(),
-            { priority: priority - 2, content: `<|/${tag}|>` }, // Use <|/tag|> syntax consistently
+            { priority: priority - 2, content: `<|/${tag}|>`, pairId }, // Use <|/tag|> syntax consistently
             PromptFormatter.doubleBreak()
         ];
     }
 }
 
+// A request shared by every completion call that produced the same prompt
+interface InFlightRequest {
+    promise: Promise<LLMResponse>;
+    abortController: AbortController;
+    consumers: number;
+}
+
 export class AutoCompleteProvider implements vscode.InlineCompletionItemProvider {
-    private lastRequestTime = 0;
-    private readonly debounceMs = 300; // Debounce requests
+    private inFlightRequests: Map<string, InFlightRequest> = new Map();
+    private completionCache = new CompletionCache();
+    private tokenizer: Tokenizer = FALLBACK_TOKENIZER;
+    // Servers and models that rejected a request with n or logprobs, sampled separately instead
+    private multipleChoicesRejected: Set<string> = new Set();
     private contextService: ContextService;
     private logger: AILogger; // Add logger instance // TODO: to remove later
     private isManualTrigger = false;
+    private nextEditController: NextEditController;
 
-    constructor(contextService: ContextService) {
+    constructor(contextService: ContextService, nextEditController: NextEditController) {
         this.contextService = contextService;
+        this.nextEditController = nextEditController;
         this.logger = new AILogger(); // Initialize logger // TODO: to remove later
+
+        this.contextService.onDidEditDocument(event => {
+            this.completionCache.invalidate(event.fileName, event.contentChanges);
+        });
+    }
+
+    public clearCache() {
+        this.completionCache.clear();
     }
 
     async provideInlineCompletionItems(
@@ -69,12 +101,22 @@ export class AutoCompleteProvider implements vscode.InlineCompletionItemProvider
             this.isManualTrigger = false;
         }
         
-        // Debounce requests
-        const now = Date.now();
-        if (now - this.lastRequestTime < this.debounceMs) {
-            return null;
+        // Serve cached suggestions, including the rest of one the user is typing through
+        const fileName = vscode.workspace.asRelativePath(document.uri);
+        const prefix = document.getText(new vscode.Range(new vscode.Position(0, 0), position));
+        const suffix = document.getText(new vscode.Range(position, document.lineAt(document.lineCount - 1).range.end));
+        const cached = this.completionCache.get(fileName, prefix, suffix);
+        if (cached) {
+            return [new vscode.InlineCompletionItem(cached.text, new vscode.Range(position, position.translate(0, cached.replacedLength)))];
+        }
+
+        // Debounce requests - VS Code cancels the token when the user keeps typing
+        if (context.triggerKind === vscode.InlineCompletionTriggerKind.Automatic) {
+            const debounceMs = config.get<number>('debounceMs', 300);
+            if (!await this.delay(debounceMs, token)) {
+                return null;
+            }
         }
-        this.lastRequestTime = now;
 
         // Don't provide completions if user is in the middle of typing rapidly
         if (context.triggerKind === vscode.InlineCompletionTriggerKind.Automatic && 
@@ -83,12 +125,33 @@ export class AutoCompleteProvider implements vscode.InlineCompletionItemProvider
         }
 
         try {
-            const completion = await this.generateCompletion(document, position, token);
-            if (!completion || token.isCancellationRequested) {
+            const edits = await this.generateCompletion(document, position, token);
+            if (edits.length === 0 || token.isCancellationRequested) {
                 return null;
             }
 
-            return [new vscode.InlineCompletionItem(completion, new vscode.Range(position, position))];
+            const ghostTextEdits = this.dedupeEdits(edits
+                .map(edit => toGhostTextEdit(document, edit, position))
+                .filter((edit): edit is NextEdit => edit !== null));
+
+            if (ghostTextEdits.length > 0) {
+                this.completionCache.set(fileName, prefix, suffix, {
+                    text: ghostTextEdits[0].text,
+                    replacedLength: ghostTextEdits[0].range.end.character - position.character
+                });
+
+                // All candidates go in one list so VS Code's next/previous suggestion commands can cycle them
+                return new vscode.InlineCompletionList(
+                    ghostTextEdits.map(edit => new vscode.InlineCompletionItem(edit.text, edit.range))
+                );
+            }
+
+            // Deletions and changes before the cursor can't be ghost text - show the best one as decorations
+            const editor = vscode.window.activeTextEditor;
+            if (editor && editor.document === document) {
+                this.nextEditController.show(editor, edits[0]);
+            }
+            return null;
         } catch (error) {
             console.error('AutoComplete error:', error);
             return null;
@@ -98,10 +161,11 @@ export class AutoCompleteProvider implements vscode.InlineCompletionItemProvider
      public async triggerManualCompletion(
         document: vscode.TextDocument,
         position: vscode.Position
-    ): Promise<string | null> {
+    ): Promise<NextEdit | null> {
         this.isManualTrigger = true;
         try {
-            return await this.generateCompletion(document, position, new vscode.CancellationTokenSource().token);
+            const edits = await this.generateCompletion(document, position, new vscode.CancellationTokenSource().token);
+            return edits[0] || null;
         } finally {
             this.isManualTrigger = false;
         }
@@ -112,52 +176,55 @@ export class AutoCompleteProvider implements vscode.InlineCompletionItemProvider
         document: vscode.TextDocument,
         position: vscode.Position,
         token: vscode.CancellationToken
-    ): Promise<string | null> {
+    ): Promise<NextEdit[]> {
         const config = vscode.workspace.getConfiguration('aiCopilot');
-        const serverUrl = config.get<string>('serverUrl') || 'http://localhost:1234';
-        const apiKey = config.get<string>('apiKey') || '';
-        const model = config.get<string>('model') || 'local-model';
 
-        // Build context using the context service
-        const context = await this.buildContext(document, position);
+        if (config.get<string>('completionMode', 'chat') === 'fim') {
+            return this.generateFimCompletion(document, position, token);
+        }
 
-        // Adjust token limit based on model size
-        let maxPromptTokens = config.get<number>('maxTokens') || 500; // Default for larger models
+        const profile = getActiveProfile('completion', document.languageId);
+        const backendSettings = toBackendSettings(profile);
+        const model = profile.model;
 
-        // if (model.includes('1.5b') || model.includes('small') || model.includes('tiny')) {
-        //     maxPromptTokens = 1500; // Much smaller for tiny models
-        // } else if (model.includes('7b') || model.includes('8b')) {
-        //     maxPromptTokens = 2500; // Medium for 7B models
-        // }
+        // Build context using the context service
+        const context = await this.buildContext(document, position);
 
-        
-        // Create the structured prompt using the copilot format
-        // const promptElements = this.buildStructuredPrompt(context);
-        // const finalPrompt = this.optimizePromptLength(this.renderPromptElements(promptElements));
+        // Size the prompt against the model's context window, leaving room for the answer and the instructions.
+        // Completions run on every pause in typing, so the prompt is capped well below large windows.
+        this.tokenizer = tokenizerService.getTokenizer(model);
+        const maxPromptTokens = Math.max(
+            0,
+            Math.min(
+                config.get<number>('completionPromptTokens', 2048),
+                profile.contextWindow - profile.maxTokens - this.countTokens(this.getInstructions())
+            )
+        );
 
         // Create the structured prompt with token awareness
         const promptElements = this.buildStructuredPrompt(context, maxPromptTokens);
-        const finalPrompt = this.renderPromptElements(promptElements);
+        const finalPrompt = this.renderPromptElements(promptElements, maxPromptTokens);
 
         // Log the prompt before sending 
         this.logger.logPrompt(finalPrompt, context); // TODO: to remove later
 
         
 
-        const headers: any = {
-            'Content-Type': 'application/json'
-        };
-
-        if (apiKey) {
-            headers['Authorization'] = `Bearer ${apiKey}`;
-        }
-
         try {
-            const response = await axios.post(
-                `${serverUrl}/v1/chat/completions`,
+            const requestKey = this.getRequestKey('chat', model, finalPrompt);
+            const response = await this.sendShared(requestKey, token, signal => this.requestCandidates(
+                backendSettings,
                 {
                     model: model,
-                    messages: [
+                    temperature: profile.temperature,
+                    maxTokens: profile.maxTokens,
+                    //stop: ['```', '\n\n\n'] // Stop at code block end or too many newlines
+                    timeout: config.get<number>('timeout', 5000),
+                    signal,
+                    n: config.get<number>('completionCandidates', 1)
+                },
+                (backend, options) => backend.chat(
+                    [
                         {
                             role: 'system',
                             content: this.getInstructions()
@@ -167,46 +234,295 @@ export class AutoCompleteProvider implements vscode.InlineCompletionItemProvider
                             content: finalPrompt
                         }
                     ],
-                    temperature: config.get<number>('temperature', 0.2),
-                    max_tokens: config.get<number>('maxTokens', 200),
-                    //stop: ['```', '\n\n\n'] // Stop at code block end or too many newlines
-                },
-                { 
-                    headers,
-                    timeout: 500000 //config.get<number>('timeout', 5000) // 5 second timeout for autocomplete
-                }
-            );
+                    options
+                )
+            ));
 
             // 
             if (token.isCancellationRequested) {
-                return null;
+                return [];
             }
 
-            let completion = response.data.choices[0].message.content.trim();
-            
-            // Clean up the response
-            completion = this.cleanCompletion(completion, context);
+            // The model rewrote the code_to_edit line; trailing whitespace after the cursor is not part of it
+            const line = document.lineAt(position.line);
+            const contentEnd = Math.max(position.character, line.text.replace(/\s+$/, '').length);
+            const region = new vscode.Range(position.line, 0, position.line, contentEnd);
+
+            const completions = this.rankChoices(response.choices).map(choice => {
+                // Keep the leading indentation - the answer is diffed against the original line
+                const completion = choice.text.replace(/^\s*\n/, '').replace(/\s+$/, '');
+
+                // Clean up the response
+                return this.cleanCompletion(completion, context);
+            });
             
             // Log the successful response
-            this.logger.logPrompt(finalPrompt, context, completion); // TODO: to remove later
+            this.logger.logPrompt(finalPrompt, context, completions.join('\n---\n')); // TODO: to remove later
             
-            return completion;
+            return this.dedupeEdits(completions
+                .map(completion => computeNextEdit(document, region, completion))
+                .filter((edit): edit is NextEdit => edit !== null));
         } catch (error) {
-            // Log the error
-            // TODO: to remove later
-            if (axios.isAxiosError(error)) {
-                this.logger.log(`AI Request Failed: ${error.message}`, 'ERROR', {
-                    code: error.code,
-                    url: serverUrl
-                });
+            return this.handleRequestError(error, backendSettings.serverUrl);
+        }
+    }
+
+    // Fill-in-the-middle: send the raw prefix/suffix around the cursor to /v1/completions
+    private async generateFimCompletion(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): Promise<NextEdit[]> {
+        const config = vscode.workspace.getConfiguration('aiCopilot');
+        const profile = getActiveProfile('completion', document.languageId);
+        const backendSettings = toBackendSettings(profile);
+        const model = profile.model;
+        const template = getFimTemplate(model, config.get<FimFamily | 'auto'>('fimTemplate', 'auto'));
+
+        const prefixLines = config.get<number>('fimPrefixLines', 100);
+        const suffixLines = config.get<number>('fimSuffixLines', 30);
+        const lastLine = Math.min(document.lineCount - 1, position.line + suffixLines);
+
+        const prefix = document.getText(new vscode.Range(Math.max(0, position.line - prefixLines), 0, position.line, position.character));
+        const suffix = document.getText(new vscode.Range(position.line, position.character, lastLine, document.lineAt(lastLine).text.length));
+        const lineSuffix = document.lineAt(position.line).text.substring(position.character);
+
+        // In the middle of a line only complete up to the end of that line
+        const stop = lineSuffix.trim() ? ['\n', ...template.stop] : [...template.stop];
+
+        const prompt = template.build(prefix, suffix);
+        const logContext = {
+            fileContext: { fileName: vscode.workspace.asRelativePath(document.uri), language: document.languageId },
+            cursor: position
+        };
+
+        // Log the prompt before sending 
+        this.logger.logPrompt(prompt, logContext); // TODO: to remove later
+
+        try {
+            const requestKey = this.getRequestKey('fim', model, prompt);
+            const response = await this.sendShared(requestKey, token, signal => this.requestCandidates(
+                backendSettings,
+                {
+                    model: model,
+                    temperature: profile.temperature,
+                    maxTokens: profile.maxTokens,
+                    // The stop sequences that don't fit are applied to the answers below
+                    stop: backendSettings.type === 'openai' ? stop.slice(0, MAX_OPENAI_STOP_SEQUENCES) : stop,
+                    timeout: config.get<number>('timeout', 5000),
+                    signal,
+                    n: config.get<number>('completionCandidates', 1)
+                },
+                (backend, options) => backend.complete(prompt, options)
+            ));
+
+            if (token.isCancellationRequested) {
+                return [];
             }
 
-            if (axios.isAxiosError(error) && error.code === 'ECONNABORTED') {
-                // Timeout - don't show error, just return null
-                return null;
+            const completions = this.rankChoices(response.choices).map(choice => {
+                let completion = truncateAtStop(choice.text, stop).replace(/\s+$/, '');
+
+                // Drop the tail if the model re-generated the text that already follows the cursor
+                const trimmedSuffix = lineSuffix.trim();
+                if (trimmedSuffix && completion.endsWith(trimmedSuffix)) {
+                    completion = completion.substring(0, completion.length - trimmedSuffix.length);
+                }
+                return completion;
+            });
+
+            // Log the successful response
+            this.logger.logPrompt(prompt, logContext, completions.join('\n---\n')); // TODO: to remove later
+
+            return this.dedupeEdits(completions
+                .filter(completion => completion.length > 0)
+                .map(completion => ({ range: new vscode.Range(position, position), text: completion })));
+        } catch (error) {
+            return this.handleRequestError(error, backendSettings.serverUrl);
+        }
+    }
+
+    private getRequestKey(mode: string, model: string, prompt: string): string {
+        return crypto.createHash('sha1').update(`${mode}\0${model}\0${prompt}`).digest('hex');
+    }
+
+    // Sends the request, or joins an identical one already in flight. The underlying HTTP
+    // request is only aborted once every caller waiting on it has been cancelled.
+    private sendShared(
+        key: string,
+        token: vscode.CancellationToken,
+        send: (signal: AbortSignal) => Promise<LLMResponse>
+    ): Promise<LLMResponse> {
+        if (token.isCancellationRequested) {
+            return Promise.reject(new LLMError('Request cancelled', 'cancelled'));
+        }
+
+        let request = this.inFlightRequests.get(key);
+        if (!request) {
+            const abortController = new AbortController();
+            const promise = send(abortController.signal);
+            const newRequest: InFlightRequest = { promise, abortController, consumers: 0 };
+            const cleanup = () => {
+                if (this.inFlightRequests.get(key) === newRequest) {
+                    this.inFlightRequests.delete(key);
+                }
+            };
+            promise.then(cleanup, cleanup);
+
+            request = newRequest;
+            this.inFlightRequests.set(key, request);
+        }
+
+        const shared = request;
+        shared.consumers++;
+
+        return new Promise<LLMResponse>((resolve, reject) => {
+            let settled = false;
+            const settle = () => {
+                settled = true;
+                shared.consumers--;
+                listener.dispose();
+            };
+
+            const listener = token.onCancellationRequested(() => {
+                if (settled) {
+                    return;
+                }
+                settle();
+                if (shared.consumers === 0) {
+                    shared.abortController.abort();
+                    this.inFlightRequests.delete(key);
+                }
+                reject(new LLMError('Request cancelled', 'cancelled'));
+            });
+
+            shared.promise.then(
+                response => {
+                    if (!settled) {
+                        settle();
+                        resolve(response);
+                    }
+                },
+                error => {
+                    if (!settled) {
+                        settle();
+                        reject(error);
+                    }
+                }
+            );
+        });
+    }
+
+    // Resolves to false if the token is cancelled before the delay elapses
+    private delay(ms: number, token: vscode.CancellationToken): Promise<boolean> {
+        return new Promise(resolve => {
+            if (token.isCancellationRequested) {
+                resolve(false);
+                return;
+            }
+
+            const timer = setTimeout(() => {
+                listener.dispose();
+                resolve(!token.isCancellationRequested);
+            }, ms);
+
+            const listener = token.onCancellationRequested(() => {
+                clearTimeout(timer);
+                listener.dispose();
+                resolve(false);
+            });
+        });
+    }
+
+    // Asks for options.n candidates: in one request when the server supports `n`,
+    // otherwise as several sampled requests
+    private async requestCandidates(
+        settings: BackendSettings,
+        options: LLMRequestOptions,
+        send: (backend: LLMBackend, options: LLMRequestOptions) => Promise<LLMResponse>
+    ): Promise<LLMResponse> {
+        const backend = createLLMBackend(settings);
+        const count = Math.max(1, options.n || 1);
+
+        if (count === 1) {
+            return send(backend, { ...options, n: 1, logprobs: false });
+        }
+
+        // Servers behind an OpenAI-compatible API may ignore n (LM Studio, llama.cpp, Ollama's /v1)
+        // and return a single choice; the missing candidates are sampled separately
+        const responses: LLMResponse[] = [];
+        const key = `${settings.serverUrl}|${options.model}`;
+        if (backend.supportsMultipleChoices && !this.multipleChoicesRejected.has(key)) {
+            try {
+                responses.push(await send(backend, { ...options, n: count, logprobs: true }));
+            } catch (error) {
+                if (!(error instanceof LLMError && error.kind === 'server')) {
+                    throw error;
+                }
+                this.multipleChoicesRejected.add(key);
+            }
+        }
+        const missing = count - responses.reduce((total, response) => total + response.choices.length, 0);
+
+        // Extra samples use a livelier temperature, otherwise they mostly repeat the first one
+        const results = await Promise.allSettled(Array.from({ length: Math.max(0, missing) }, (_, index) => send(backend, {
+            ...options,
+            n: undefined,
+            temperature: index === 0 && responses.length === 0 ? options.temperature : Math.max(options.temperature || 0, 0.8)
+        })));
+
+        responses.push(...results
+            .filter((result): result is PromiseFulfilledResult<LLMResponse> => result.status === 'fulfilled')
+            .map(result => result.value));
+
+        if (responses.length === 0) {
+            throw (results[0] as PromiseRejectedResult).reason;
+        }
+
+        return {
+            ...responses[0],
+            choices: responses.reduce<LLMChoice[]>((choices, response) => choices.concat(response.choices), [])
+        };
+    }
+
+    // Orders candidates by average token log-probability when the server reports it
+    private rankChoices(choices: LLMChoice[]): LLMChoice[] {
+        if (!choices.some(choice => choice.avgLogprob !== undefined)) {
+            return choices;
+        }
+
+        return [...choices].sort((a, b) =>
+            (b.avgLogprob ?? Number.NEGATIVE_INFINITY) - (a.avgLogprob ?? Number.NEGATIVE_INFINITY)
+        );
+    }
+
+    private dedupeEdits(edits: NextEdit[]): NextEdit[] {
+        const seen = new Set<string>();
+        return edits.filter(edit => {
+            const key = `${edit.range.start.line}:${edit.range.start.character}-${edit.range.end.line}:${edit.range.end.character}:${edit.text}`;
+            if ((!edit.text.trim() && edit.range.isEmpty) || seen.has(key)) {
+                return false;
             }
-            throw error;
+            seen.add(key);
+            return true;
+        });
+    }
+
+    private handleRequestError(error: unknown, serverUrl: string): [] {
+        // Log the error
+        // TODO: to remove later
+        if (error instanceof LLMError) {
+            this.logger.log(`AI Request Failed: ${error.message}`, 'ERROR', {
+                kind: error.kind,
+                url: serverUrl
+            });
+        }
+
+        if (error instanceof LLMError && (error.kind === 'timeout' || error.kind === 'cancelled')) {
+            // Timeout - don't show error, just return no suggestions
+            return [];
         }
+        throw error;
     }
 
     //
@@ -230,12 +546,26 @@ export class AutoCompleteProvider implements vscode.InlineCompletionItemProvider
         const codeToEdit = prefixText + "<|cursor|>" + suffixText;
         
         // Get file context from context service
-        const fileContext = await this.contextService.getFileContext(document);
+        const fileContext = await this.contextService.getFileContext(document, position, true);
         const fullContent = this.addLineNumbers(fileContext.fullContent);
         
         // Get edit history and viewed snippets from context service
         const editHistory = this.contextService.getEditHistoryForFile(fileName, 5); // Last 5 minutes
-        const viewedSnippets = this.contextService.getSnippetsForLanguage(document.languageId, 10); // Last 10 minutes
+        // Selections the developer made come first, then the most similar windows of other open editors
+        const viewedSnippets = [
+            ...this.contextService.getSnippetsForLanguage(document.languageId, 10), // Last 10 minutes
+            ...this.contextService.getNeighborSnippets(document, position)
+        ];
+        const importedDefinitions = await this.contextService.getImportedDefinitions(document);
+
+        // Errors and warnings close to the cursor, nearest first
+        const diagnostics = vscode.languages.getDiagnostics(document.uri)
+            .filter(diagnostic =>
+                diagnostic.severity <= vscode.DiagnosticSeverity.Warning &&
+                Math.abs(diagnostic.range.start.line - position.line) <= 20
+            )
+            .sort((a, b) => Math.abs(a.range.start.line - position.line) - Math.abs(b.range.start.line - position.line))
+            .slice(0, 5);
         
         return {
             cursor: position,
@@ -244,6 +574,8 @@ export class AutoCompleteProvider implements vscode.InlineCompletionItemProvider
             currentFileContent: fullContent,
             editHistory,
             viewedSnippets,
+            importedDefinitions,
+            diagnostics,
             prefixText,
             suffixText,
             fileContext,
@@ -252,15 +584,13 @@ export class AutoCompleteProvider implements vscode.InlineCompletionItemProvider
         };
     }
 
-    // Add this helper method to estimate tokens
-    private estimateTokens(text: string): number {
-        // Simple estimation: 1 token ≈ 4 characters for English
-        // More accurate: count words + special tokens
-        return Math.ceil(text.length / 4);
+    // Counts tokens with the tokenizer of the model the current prompt is built for
+    private countTokens(text: string): number {
+        return this.tokenizer.countTokens(text);
     }
 
     private getCurrentTokenCount(elements: PromptElement[]): number {
-        return this.estimateTokens(this.renderPromptElements(elements));
+        return this.countTokens(this.renderPromptElements(elements));
     }
 
     private buildTokenAwareCopilotSections(context: any, availableTokens: number): { content: string; tokensUsed: number } {
@@ -274,8 +604,8 @@ export class AutoCompleteProvider implements vscode.InlineCompletionItemProvider
             
             let snippetCount = 0;
             for (const snippet of context.viewedSnippets) {
-                const snippetContent = `<|recently_viewed_code_snippet|>\nFile: ${snippet.fileName} (${snippet.language})\n${this.addLineNumbers(snippet.content)}\n<|/recently_viewed_code_snippet|>\n`;
-                const snippetTokens = this.estimateTokens(snippetContent);
+                const snippetContent = `<|recently_viewed_code_snippet|>\nFile: ${snippet.fileName} (${snippet.language})\n${this.addLineNumbers(snippet.content, snippet.range.start.line)}\n<|/recently_viewed_code_snippet|>\n`;
+                const snippetTokens = this.countTokens(snippetContent);
                 
                 if (tokensUsed + snippetTokens > availableTokens * 0.3) {
                     break; // Stop adding snippets if we're using too many tokens
@@ -291,19 +621,47 @@ export class AutoCompleteProvider implements vscode.InlineCompletionItemProvider
             tokensUsed += 30;
         }
 
+        // Add signatures of the symbols imported from other workspace files
+        if (availableTokens - tokensUsed > 400 && context.importedDefinitions.length > 0) {
+            sections.push(`<|imported_definitions|>`);
+            tokensUsed += 20;
+
+            for (const definition of context.importedDefinitions as ImportedDefinitions[]) {
+                const definitionContent = `File: ${definition.fileName} (imported as "${definition.specifier}")\n${definition.signatures}\n`;
+                const definitionTokens = this.countTokens(definitionContent);
+
+                if (tokensUsed + definitionTokens > availableTokens * 0.5) {
+                    continue; // Smaller files further down may still fit
+                }
+
+                sections.push(definitionContent);
+                tokensUsed += definitionTokens;
+            }
+            sections.push(`<|/imported_definitions|>\n`);
+            tokensUsed += 20;
+        }
+
         // Add current file content (truncated if needed)
         if (availableTokens - tokensUsed > 300) {
             const maxFileTokens = Math.min(availableTokens - tokensUsed - 100, 1000);
             let fileContent = context.currentFileContent;
             
-            if (this.estimateTokens(fileContent) > maxFileTokens) {
+            if (this.countTokens(fileContent) > maxFileTokens) {
                 // Truncate file content while preserving structure
-                const lines = fileContent.split('\n');
-                fileContent = lines.slice(0, 50).join('\n') + '\n// ... [file content truncated] ...\n';
+                const lines: string[] = [];
+                let fileTokens = 0;
+                for (const line of fileContent.split('\n').slice(0, 50)) {
+                    fileTokens += this.countTokens(line) + 1;
+                    if (fileTokens > maxFileTokens) {
+                        break;
+                    }
+                    lines.push(line);
+                }
+                fileContent = lines.join('\n') + '\n// ... [file content truncated] ...\n';
             }
             
             sections.push(`<|current_file_content|>\n${fileContent}\n<|/current_file_content|>\n`);
-            tokensUsed += this.estimateTokens(fileContent) + 30;
+            tokensUsed += this.countTokens(fileContent) + 30;
         }
 
         // Add edit diff history (brief summary only)
@@ -314,24 +672,33 @@ export class AutoCompleteProvider implements vscode.InlineCompletionItemProvider
             // Only include most recent 3 edits
             const recentEdits = context.editHistory.slice(-3);
             for (const edit of recentEdits) {
-                const changeDescription = edit.oldText ? 
-                    `"${edit.oldText}" -> "${edit.newText}"` : 
-                    `Added: "${edit.newText}"`;
-                const editText = `Change at line ${edit.range.start.line + 1}: ${changeDescription}\n`;
+                const editText = this.renderHunk(edit) + '\n';
                 
-                if (tokensUsed + this.estimateTokens(editText) > availableTokens * 0.1) {
+                if (tokensUsed + this.countTokens(editText) > availableTokens * 0.1) {
                     break;
                 }
                 
                 sections.push(editText);
-                tokensUsed += this.estimateTokens(editText);
+                tokensUsed += this.countTokens(editText);
             }
             sections.push(`<|/edit_diff_history|>\n`);
             tokensUsed += 25;
         }
 
+        // Add problems reported near the cursor
+        if (availableTokens - tokensUsed > 150 && context.diagnostics.length > 0) {
+            const problems = (context.diagnostics as vscode.Diagnostic[]).map(diagnostic => describeDiagnostic(diagnostic));
+            const diagnosticsContent = `<|diagnostics|>\n${problems.join('\n')}\n<|/diagnostics|>\n`;
+
+            if (tokensUsed + this.countTokens(diagnosticsContent) < availableTokens * 0.6) {
+                sections.push(diagnosticsContent);
+                tokensUsed += this.countTokens(diagnosticsContent);
+            }
+        }
+
         // Add file analysis (only if we have space)
         if (availableTokens - tokensUsed > 150 && context.fileContext) {
+            const analysisStart = sections.length;
             sections.push(`<|file_analysis|>\n`);
             sections.push(`Language: ${context.fileContext.language}\n`);
             
@@ -341,9 +708,17 @@ export class AutoCompleteProvider implements vscode.InlineCompletionItemProvider
             if (context.fileContext.functions.length > 0) {
                 sections.push(`Functions: ${context.fileContext.functions.slice(0, 3).join(', ')}\n`);
             }
+            if (context.fileContext.classes.length > 0) {
+                sections.push(`Types: ${context.fileContext.classes.slice(0, 3).join(', ')}\n`);
+            }
+            // Where the cursor is, e.g. "Class Calc > Method plus"
+            const enclosingSymbols: OutlineSymbol[] = context.fileContext.enclosingSymbols || [];
+            if (enclosingSymbols.length > 0) {
+                sections.push(`Cursor is inside: ${enclosingSymbols.map(symbol => `${symbol.kind} ${symbol.name}`).join(' > ')}\n`);
+            }
             
             sections.push(`<|/file_analysis|>\n`);
-            tokensUsed += 100; // Estimate
+            tokensUsed += this.countTokens(sections.slice(analysisStart).join('\n'));
         }
 
         // ALWAYS include area around code and code to edit (most critical)
@@ -353,7 +728,7 @@ export class AutoCompleteProvider implements vscode.InlineCompletionItemProvider
         // Add final instruction
         // sections.push(`Complete the code at the cursor position.`);
 
-        sections.push(`The developer was working on a section of code within the tags \`code_to_edit\` in the file located at \`${context.fileName}\`. Using the given \`recently_viewed_code_snippets\`, \`current_file_content\`, \`edit_diff_history\`, \`area_around_code_to_edit\`, and the cursor position marked as \`<|cursor|>\`, please continue the developer's work. Update the \`code_to_edit\` section by predicting and completing the changes they would have made next. Provide the revised code that was between the \`<|code_to_edit|>\` and \`<|/code_to_edit|>\` tags with the following format, but do not include the tags themselves.
+        sections.push(`The developer was working on a section of code within the tags \`code_to_edit\` in the file located at \`${context.fileName}\`. Using the given \`recently_viewed_code_snippets\`, \`current_file_content\`, \`edit_diff_history\`, \`imported_definitions\`, \`diagnostics\`, \`area_around_code_to_edit\`, and the cursor position marked as \`<|cursor|>\`, please continue the developer's work. Update the \`code_to_edit\` section by predicting and completing the changes they would have made next. Provide the revised code that was between the \`<|code_to_edit|>\` and \`<|/code_to_edit|>\` tags with the following format, but do not include the tags themselves.
 
 \`\`\`
 // Your revised code goes here
@@ -361,8 +736,8 @@ export class AutoCompleteProvider implements vscode.InlineCompletionItemProvider
 
         sections.push(`Please provide the completed code for the cursor position:`); // Final instruction
         
-        tokensUsed += this.estimateTokens(context.areaAroundCode) + 
-                    this.estimateTokens(context.codeToEdit) + 100; // Estimate for final instruction 
+        tokensUsed += this.countTokens(context.areaAroundCode) + 
+                    this.countTokens(context.codeToEdit) + 100; // Estimate for final instruction 
 
         return {
             content: sections.join('\n'),
@@ -372,7 +747,6 @@ export class AutoCompleteProvider implements vscode.InlineCompletionItemProvider
 
     private buildStructuredPrompt(context: any, maxTokens: number = 3500): PromptElement[] {
         const elements: PromptElement[] = [];
-        let currentTokens = 0;
 
         // System message with high priority - using original copilot format
         const systemMessage = "These are the files I'm working on, before I started making changes to them:";
@@ -380,54 +754,48 @@ export class AutoCompleteProvider implements vscode.InlineCompletionItemProvider
             priority: 1000,
             content: systemMessage
         });
-        currentTokens += this.estimateTokens(systemMessage) + 2; // +2 for breaks
+        elements.push(PromptFormatter.singleBreak());
 
-        // Original code section - only include if we have space
+        // Original code section - the first thing dropped when the prompt is over budget
         const originalCodeContent = this.renderOriginalDocument(context);
-        if (currentTokens + this.estimateTokens(originalCodeContent) < maxTokens * 0.6) { // Limit to 60% of max tokens
-            elements.push({ priority: 998, content: "<|original_code|>" });
-            elements.push(PromptFormatter.singleBreak());
-            elements.push({ priority: 300, content: originalCodeContent });
-            elements.push(PromptFormatter.singleBreak());
-            elements.push({ priority: 995, content: "<|/original_code|>" });
-            elements.push(PromptFormatter.doubleBreak());
-            currentTokens += this.estimateTokens(originalCodeContent) + 50;
-        }
+        elements.push({ priority: 998, content: "<|original_code|>", pairId: 'original_code' });
+        elements.push(PromptFormatter.singleBreak());
+        elements.push({ priority: 300, content: originalCodeContent });
+        elements.push(PromptFormatter.singleBreak());
+        elements.push({ priority: 995, content: "<|/original_code|>", pairId: 'original_code' });
+        elements.push(PromptFormatter.doubleBreak());
 
-        // Edit history section - only include recent edits if space allows
+        // Edit history section - its heading goes together with the tags
         const editHistoryContent = this.renderDocumentDiffs(context);
-        if (currentTokens + this.estimateTokens(editHistoryContent) < maxTokens * 0.7) { // Limit to 70% of max tokens
-            elements.push({
-                priority: 900,
-                content: "This is a sequence of edits that I made on these files, starting from the oldest to the newest:"
-            });
-            elements.push(PromptFormatter.singleBreak());
-            elements.push({ priority: 898, content: "<|edits_to_original_code|>" });
-            elements.push(PromptFormatter.singleBreak());
-            elements.push({ priority: 300, content: editHistoryContent });
-            elements.push(PromptFormatter.singleBreak());
-            elements.push({ priority: 895, content: "<|/edits_to_original_code|>" });
-            elements.push(PromptFormatter.doubleBreak());
-            currentTokens += this.estimateTokens(editHistoryContent) + 100;
-        }
+        elements.push({
+            priority: 900,
+            content: "This is a sequence of edits that I made on these files, starting from the oldest to the newest:",
+            pairId: 'edits_to_original_code'
+        });
+        elements.push(PromptFormatter.singleBreak());
+        elements.push({ priority: 898, content: "<|edits_to_original_code|>", pairId: 'edits_to_original_code' });
+        elements.push(PromptFormatter.singleBreak());
+        elements.push({ priority: 310, content: editHistoryContent });
+        elements.push(PromptFormatter.singleBreak());
+        elements.push({ priority: 895, content: "<|/edits_to_original_code|>", pairId: 'edits_to_original_code' });
+        elements.push(PromptFormatter.doubleBreak());
 
         // Current editing section - always include
         const currentEditHeader = `Here is the piece of code I am currently editing in ${context.fileName}:`;
-        elements.push({ priority: 300, content: currentEditHeader });
+        elements.push({ priority: 990, content: currentEditHeader });
         elements.push(PromptFormatter.doubleBreak());
-        currentTokens += this.estimateTokens(currentEditHeader) + 2;
 
-        // Build copilot sections with token awareness
-        const copilotSections = this.buildTokenAwareCopilotSections(context, maxTokens - currentTokens - 200); // Leave room for final instruction
-        elements.push({ priority: 350, content: copilotSections.content });
-        currentTokens += copilotSections.tokensUsed;
+        // Final instruction - always include
+        const finalInstruction = "Based on my most recent edits, what will I do next? Rewrite the code between <|code_to_edit|> and <|/code_to_edit|> based on what I will do next. Do not skip any lines. Do not be lazy.";
+
+        // Build copilot sections with token awareness, in the room left by the parts that are always sent
+        const requiredTokens = this.countTokens(systemMessage) + this.countTokens(currentEditHeader) + this.countTokens(finalInstruction) + 10;
+        const copilotSections = this.buildTokenAwareCopilotSections(context, maxTokens - requiredTokens);
+        elements.push({ priority: 1000, content: copilotSections.content });
 
         elements.push(PromptFormatter.doubleBreak());
 
-        // Final instruction - always include
-        const finalInstruction = "Based on my most recent edits, what will I do next? Rewrite the code between <|code_to_edit|> and <|/code_to_edit|> based on what I will do next. Do not skip any lines. Do not be lazy.";
-        elements.push({ priority: 280, content: finalInstruction });
-        currentTokens += this.estimateTokens(finalInstruction);
+        elements.push({ priority: 1000, content: finalInstruction });
 
         return elements;
     }
@@ -453,29 +821,30 @@ export class AutoCompleteProvider implements vscode.InlineCompletionItemProvider
         
         // Add edit history as diff format
         context.editHistory.forEach((edit: EditHistory) => {
-            const lineNum = edit.range.start.line + 1;
-            if (edit.oldText) {
-                lines.push(`@@ -${lineNum},1 +${lineNum},1 @@`);
-                lines.push(`-${edit.oldText}`);
-                lines.push(`+${edit.newText}`);
-            } else {
-                lines.push(`@@ -${lineNum},0 +${lineNum},1 @@`);
-                lines.push(`+${edit.newText}`);
-            }
+            lines.push(this.renderHunk(edit));
         });
         
         lines.push("```");
         return lines.join('\n');
     }
 
-    private renderPromptElements(elements: PromptElement[]): string {
-        // Sort by priority (highest first)
-        const sortedElements = elements.sort((a, b) => b.priority - a.priority);
-        
+    private renderHunk(edit: EditHistory): string {
+        // Unified diff numbering: an empty side refers to the line before the hunk
+        const range = (start: number, count: number) => `${count === 0 ? start - 1 : start},${count}`;
+        return [
+            `@@ -${range(edit.oldStart, edit.oldLines.length)} +${range(edit.newStart, edit.newLines.length)} @@`,
+            ...edit.oldLines.map(line => `-${line}`),
+            ...edit.newLines.map(line => `+${line}`)
+        ].join('\n');
+    }
+
+    // Renders the elements in the order they were added. If the prompt exceeds maxTokens, whole
+    // elements are dropped, lowest priority first, until it fits.
+    private renderPromptElements(elements: PromptElement[], maxTokens: number = Infinity): string {
         const result: string[] = [];
         let lastWasBreak = false;
         
-        for (const element of sortedElements) {
+        for (const element of this.prunePromptElements(elements, maxTokens)) {
             if (element.isBreak) {
                 if (!lastWasBreak) {
                     result.push('\n');
@@ -490,6 +859,57 @@ export class AutoCompleteProvider implements vscode.InlineCompletionItemProvider
         return result.join('').replace(/\n\n\n+/g, '\n\n').trim();
     }
 
+    private prunePromptElements(elements: PromptElement[], maxTokens: number): PromptElement[] {
+        const tokens = elements.map(element => element.isBreak ? 1 : this.countTokens(element.content));
+        let total = tokens.reduce((sum, count) => sum + count, 0);
+        if (total <= maxTokens) {
+            return elements;
+        }
+
+        // Elements sharing a pairId (open/close tags and their heading) form one unit that is
+        // kept or dropped as a whole; breaks are never dropped on their own
+        const units = new Map<string, number[]>();
+        elements.forEach((element, index) => {
+            if (!element.isBreak) {
+                const key = element.pairId !== undefined ? `pair:${element.pairId}` : `element:${index}`;
+                units.set(key, [...(units.get(key) || []), index]);
+            }
+        });
+
+        const dropped = new Set<number>();
+        const unitPriority = (indices: number[]) => Math.max(...indices.map(index => elements[index].priority));
+        const pairs = [...units.entries()].filter(([key]) => key.startsWith('pair:')).map(([, indices]) => indices);
+        // A pair whose enclosed content was dropped entirely is dropped too
+        const isEmptyPair = (indices: number[]) => {
+            for (let index = indices[0] + 1; index < indices[indices.length - 1]; index++) {
+                const element = elements[index];
+                if (!dropped.has(index) && !element.isBreak && element.pairId === undefined) {
+                    return false;
+                }
+            }
+            return true;
+        };
+        const drop = (indices: number[]) => {
+            for (const index of indices) {
+                if (!dropped.has(index)) {
+                    dropped.add(index);
+                    total -= tokens[index];
+                }
+            }
+        };
+
+        const order = [...units.values()].sort((a, b) => unitPriority(a) - unitPriority(b));
+        for (const indices of order) {
+            if (total <= maxTokens) {
+                break;
+            }
+            drop(indices);
+            pairs.filter(pair => !dropped.has(pair[0]) && isEmptyPair(pair)).forEach(drop);
+        }
+
+        return elements.filter((_, index) => !dropped.has(index));
+    }
+
     private optimizePromptLength(prompt: string, maxTokens: number = 4000): string {
         // Simple token estimation (1 token ≈ 4 characters for English)
         const estimatedTokens = prompt.length / 4;
@@ -535,9 +955,11 @@ You have access to the following information to help you make informed suggestio
 - recently_viewed_code_snippets: These are code snippets that the developer has recently looked at, which might provide context or examples relevant to the current task. They are listed from oldest to newest, with line numbers in the form #| to help you understand the edit diff history. It's possible these are entirely irrelevant to the developer's change.
 - current_file_content: The content of the file the developer is currently working on, providing the broader context of the code. Line numbers in the form #| are included to help you understand the edit diff history.
 - edit_diff_history: A record of changes made to the code, helping you understand the evolution of the code and the developer's intentions. These changes are listed from oldest to latest. It's possible a lot of old edit diff history is entirely irrelevant to the developer's change.
+- imported_definitions: Signatures of the types, functions and classes this file imports from other files in the workspace. Use them to call the imported code with the right names, parameters and types.
+- diagnostics: Errors and warnings the compiler or linter reports near the cursor, with their line numbers. The developer's next change may well fix one of them, but unfinished code being typed also produces errors.
 - area_around_code_to_edit: The context showing the code surrounding the section to be edited.
 - cursor position marked as <|cursor|>: Indicates where the developer's cursor is currently located, which can be crucial for understanding what part of the code they are focusing on.
-- file_analysis: Information about imports, functions, classes, and variables in the current file.
+- file_analysis: Information about imports, functions, classes, and variables in the current file, and the symbols (class, function, method) the cursor is inside.
 
 Your task is to predict and complete the changes the developer would have made next in the <|code_to_edit|> section. The developer may have stopped in the middle of typing. Your goal is to keep the developer on the path that you think they're following. Some examples include further implementing a class, method, or variable, or improving the quality of the code. Make sure the developer doesn't get distracted and ensure your suggestion is relevant. Consider what changes need to be made next, if any. If you think changes should be made, ask yourself if this is truly what needs to happen. If you are confident about it, then proceed with the changes.
 
@@ -578,16 +1000,11 @@ Your task is to predict and complete the changes the developer would have made n
         // Remove the cursor marker if it appears in the response
         completion = completion.replace(/<\|cursor\|>/g, '');
         
-        // Remove line numbers if they appear
-        completion = completion.replace(/^\d+\|\s*/gm, '');
-        
-        // If the completion starts with the prefix, remove it
-        if (completion.startsWith(context.prefixText)) {
-            completion = completion.substring(context.prefixText.length);
-        }
+        // Remove line numbers if they appear (keeping the indentation after them)
+        completion = completion.replace(/^\d+\| ?/gm, '');
         
         // Clean up excessive whitespace
-        completion = completion.replace(/\n\n\n+/g, '\n\n');
+        completion = completion.replace(/\n\n\n+/g, '\n\n').replace(/\s+$/, '');
         
         return completion;
     }
@@ -595,7 +1012,6 @@ Your task is to predict and complete the changes the developer would have made n
     private isTypingRapidly(document: vscode.TextDocument): boolean {
         // Use the context service to check for rapid typing
         const fileName = vscode.workspace.asRelativePath(document.uri);
-        const recentEdits = this.contextService.getEditHistoryForFile(fileName, 0.017); // Last 1 second (1/60 minute)
-        return recentEdits.length > 2;
+        return this.contextService.getRecentChangeCount(fileName, 1000) > 2; // More than 2 changes in the last second
     }
 }
\ No newline at end of file
@@ -1,19 +1,34 @@
 import * as vscode from 'vscode';
-import axios from 'axios';
+import { createLLMBackend, LLMError, LLMMessage, LLMResponse, LLMToolCall, parseToolArguments } from './llmClient';
+import { ChatSession, ChatSessionStore, DEFAULT_SESSION_NAME } from './chatSessionStore';
+import { CodeBlockApplier } from './codeBlockApplier';
+import { getActiveProfile, ModelProfile, toBackendSettings } from './profiles';
+import { tokenizerService } from './tokenizer';
+import { expandTemplate, SlashCommandInvocation, SlashCommandRegistry } from './slashCommands';
+import { MENTION_KINDS, MentionKind, MentionProvider } from './mentions';
+import { describeProblems } from './problems';
+import { describeEditFailures, EDIT_FORMAT_INSTRUCTIONS, MultiFileEditApplier, parseEditBlocks } from './multiFileEdit';
+import { buildTextToolInstructions, ChatToolRegistry, formatTextToolResults, parseTextToolCalls } from './chatTools';
 
-interface ChatMessage {
+// Follow-ups sent to the model for edits that failed to apply, per user message
+const MAX_EDIT_RETRIES = 2;
+// Rounds of tool calls per answer; after that the model has to answer with what it has
+const MAX_TOOL_ROUNDS = 5;
+
+export interface ChatMessage {
     role: 'user' | 'assistant';
     content: string;
     attachments?: Array<{
-        type: 'file' | 'selection';
+        type: 'file' | 'selection' | 'context';
         name: string;
         content: string;
         lines?: { start: number; end: number };
     }>;
 }
 
-interface AttachedItem {
-    type: 'file' | 'selection';
+// 'context' items are reference material (such as imported definitions) that code is never applied to
+export interface AttachedItem {
+    type: 'file' | 'selection' | 'context';
     name: string;
     content: string;
     lines?: { start: number; end: number };
@@ -23,10 +38,48 @@ export class ChatProvider implements vscode.WebviewViewProvider {
     public static readonly viewType = 'aiCopilotChat';
 
     private _view?: vscode.WebviewView;
-    private _messages: ChatMessage[] = [];
-    private _pendingAttachments: AttachedItem[] = [];
+    private _sessionStore: ChatSessionStore;
+    private _session: ChatSession;
+    private _abortController?: AbortController;
+    // Settles when the answer being generated has finished, including after it was stopped
+    private _generationFinished: Promise<void> = Promise.resolve();
+    private _finishGeneration?: () => void;
+    private _editMode = false;
+    private _multiFileEditApplier: MultiFileEditApplier;
+    private _pendingApprovals = new Map<string, (approved: boolean) => void>();
+    private _nextApprovalId = 0;
+    // Profiles whose server rejected native tool calls; they get the text protocol instead
+    private _textToolProfiles = new Set<string>();
+
+    constructor(
+        private readonly _extensionUri: vscode.Uri,
+        workspaceState: vscode.Memento,
+        private readonly _codeBlockApplier: CodeBlockApplier,
+        private readonly _slashCommands: SlashCommandRegistry,
+        private readonly _mentions: MentionProvider,
+        private readonly _tools: ChatToolRegistry
+    ) {
+        this._sessionStore = new ChatSessionStore(workspaceState);
+        this._session = this._sessionStore.getActiveSession();
+        this._multiFileEditApplier = new MultiFileEditApplier(_codeBlockApplier);
+        this._slashCommands.onDidChange(() => this._updateSlashCommands());
+    }
+
+    private get _messages(): ChatMessage[] {
+        return this._session.messages;
+    }
+
+    private set _messages(messages: ChatMessage[]) {
+        this._session.messages = messages;
+    }
+
+    private get _pendingAttachments(): AttachedItem[] {
+        return this._session.pendingAttachments;
+    }
 
-    constructor(private readonly _extensionUri: vscode.Uri) {}
+    private set _pendingAttachments(attachments: AttachedItem[]) {
+        this._session.pendingAttachments = attachments;
+    }
 
     public resolveWebviewView(
         webviewView: vscode.WebviewView,
@@ -45,6 +98,16 @@ export class ChatProvider implements vscode.WebviewViewProvider {
         webviewView.webview.onDidReceiveMessage(
             message => {
                 switch (message.type) {
+                    case 'ready':
+                        this._updateSessions();
+                        this._updateChat();
+                        this._updateAttachments();
+                        this._updateSlashCommands();
+                        this._updateEditMode();
+                        break;
+                    case 'setEditMode':
+                        this._editMode = message.enabled;
+                        break;
                     case 'sendMessage':
                         this._handleSendMessage(message.text);
                         break;
@@ -54,6 +117,30 @@ export class ChatProvider implements vscode.WebviewViewProvider {
                     case 'clearChat':
                         this._clearChat();
                         break;
+                    case 'stopGeneration':
+                        this._stopGeneration();
+                        break;
+                    case 'newSession':
+                        this._newSession();
+                        break;
+                    case 'switchSession':
+                        this._switchSession(message.id);
+                        break;
+                    case 'renameSession':
+                        this._renameSession();
+                        break;
+                    case 'deleteSession':
+                        this._deleteSession();
+                        break;
+                    case 'codeAction':
+                        this._handleCodeAction(message.action, message.code, message.messageIndex);
+                        break;
+                    case 'mentionQuery':
+                        this._handleMentionQuery(message.kind, message.query, message.requestId);
+                        break;
+                    case 'toolApprovalResponse':
+                        this._resolveToolApproval(message.id, message.approved);
+                        break;
                 }
             }
         );
@@ -66,6 +153,7 @@ export class ChatProvider implements vscode.WebviewViewProvider {
             content: content
         });
         this._updateAttachments();
+        this._saveSession();
     }
 
     public addSelectionToChat(fileName: string, content: string, startLine: number, endLine: number) {
@@ -76,11 +164,221 @@ export class ChatProvider implements vscode.WebviewViewProvider {
             lines: { start: startLine, end: endLine }
         });
         this._updateAttachments();
+        this._saveSession();
+    }
+
+    public addContextToChat(name: string, content: string) {
+        this._pendingAttachments.push({
+            type: 'context',
+            name: name,
+            content: content
+        });
+        this._updateAttachments();
+        this._saveSession();
+    }
+
+    private async _handleMentionQuery(kind: MentionKind, query: string, requestId: number) {
+        const suggestions = await this._mentions.getSuggestions(kind, query).catch(() => []);
+        if (this._view) {
+            this._view.webview.postMessage({
+                type: 'mentionSuggestions',
+                requestId: requestId,
+                suggestions: suggestions
+            });
+        }
+    }
+
+    // Turns @-mentions into attachments, skipping what is already attached
+    private async _attachMentions(text: string) {
+        const { attachments, unresolved } = await this._mentions.resolve(text);
+        for (const item of attachments) {
+            const duplicate = this._pendingAttachments.some(existing =>
+                existing.type === item.type && existing.name === item.name && existing.lines?.start === item.lines?.start
+            );
+            if (!duplicate) {
+                this._pendingAttachments.push(item);
+            }
+        }
+
+        if (unresolved.length > 0) {
+            vscode.window.showWarningMessage(`Could not resolve ${unresolved.join(', ')}`);
+        }
     }
 
     private _removeAttachment(index: number) {
         this._pendingAttachments.splice(index, 1);
         this._updateAttachments();
+        this._saveSession();
+    }
+
+    private async _handleCodeAction(action: string, code: string, messageIndex: number) {
+        try {
+            switch (action) {
+                case 'copy':
+                    await this._codeBlockApplier.copy(code);
+                    break;
+                case 'insert':
+                    await this._codeBlockApplier.insertAtCursor(code);
+                    break;
+                case 'replace':
+                    await this._codeBlockApplier.replaceSelection(code);
+                    break;
+                case 'apply': {
+                    const target = await this._pickApplyTarget(messageIndex);
+                    if (target) {
+                        await this._codeBlockApplier.applyToFile(code, target);
+                    }
+                    break;
+                }
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to apply code: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    // Picks the file or selection a code block should be applied to, preferring the latest attachments
+    private async _pickApplyTarget(messageIndex: number): Promise<AttachedItem | undefined> {
+        const targets: AttachedItem[] = [];
+        for (let i = Math.min(messageIndex, this._messages.length - 1); i >= 0; i--) {
+            for (const attachment of this._messages[i].attachments || []) {
+                if (attachment.type === 'context') {
+                    continue;
+                }
+                const isDuplicate = targets.some(target =>
+                    target.name === attachment.name &&
+                    target.lines?.start === attachment.lines?.start &&
+                    target.lines?.end === attachment.lines?.end
+                );
+                if (!isDuplicate) {
+                    targets.push(attachment);
+                }
+            }
+        }
+
+        // Nothing attached - fall back to the active editor's selection or file
+        if (targets.length === 0) {
+            const editor = vscode.window.activeTextEditor || vscode.window.visibleTextEditors[0];
+            if (!editor) {
+                vscode.window.showWarningMessage('Attach a file or selection, or open an editor, to apply code to');
+                return undefined;
+            }
+
+            const selection = editor.selection;
+            return {
+                type: selection.isEmpty ? 'file' : 'selection',
+                name: vscode.workspace.asRelativePath(editor.document.uri),
+                content: editor.document.getText(selection.isEmpty ? undefined : selection),
+                lines: selection.isEmpty ? undefined : { start: selection.start.line + 1, end: selection.end.line + 1 }
+            };
+        }
+
+        if (targets.length === 1) {
+            return targets[0];
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            targets.map(target => ({
+                label: target.name,
+                description: target.lines ? `lines ${target.lines.start}-${target.lines.end}` : 'whole file',
+                target
+            })),
+            { placeHolder: 'Apply code block to...' }
+        );
+        return picked?.target;
+    }
+
+    private _saveSession() {
+        this._sessionStore.saveSession(this._session);
+        this._updateSessions();
+    }
+
+    private _newSession() {
+        this._stopGeneration();
+        this._session = this._sessionStore.createSession();
+        this._updateSessions();
+        this._updateChat();
+        this._updateAttachments();
+    }
+
+    private _switchSession(id: string) {
+        const session = this._sessionStore.getSession(id);
+        if (!session || session.id === this._session.id) {
+            return;
+        }
+
+        this._stopGeneration();
+        this._session = session;
+        this._sessionStore.setActiveSession(session.id);
+        this._updateSessions();
+        this._updateChat();
+        this._updateAttachments();
+    }
+
+    private async _renameSession() {
+        const session = this._session;
+        const name = await vscode.window.showInputBox({
+            prompt: 'Rename chat session',
+            value: session.name
+        });
+
+        if (name && name.trim()) {
+            session.name = name.trim();
+            this._sessionStore.saveSession(session);
+            this._updateSessions();
+        }
+    }
+
+    private async _deleteSession() {
+        const session = this._session;
+        const answer = await vscode.window.showWarningMessage(
+            `Delete chat session "${session.name}"?`,
+            { modal: true },
+            'Delete'
+        );
+        if (answer !== 'Delete') {
+            return;
+        }
+
+        this._stopGeneration();
+        this._sessionStore.deleteSession(session.id);
+
+        const [next] = this._sessionStore.getSessions();
+        this._session = next ? this._sessionStore.getSession(next.id)! : this._sessionStore.createSession();
+        this._sessionStore.setActiveSession(this._session.id);
+        this._updateSessions();
+        this._updateChat();
+        this._updateAttachments();
+    }
+
+    private _updateSessions() {
+        if (this._view) {
+            this._view.webview.postMessage({
+                type: 'updateSessions',
+                sessions: this._sessionStore.getSessions(),
+                activeId: this._session.id
+            });
+        }
+    }
+
+    private _updateSlashCommands() {
+        if (this._view) {
+            this._view.webview.postMessage({
+                type: 'updateSlashCommands',
+                commands: this._slashCommands.getCommands().map(command => ({
+                    name: command.name,
+                    description: command.description
+                }))
+            });
+        }
+    }
+
+    private _updateEditMode() {
+        if (this._view) {
+            this._view.webview.postMessage({
+                type: 'updateEditMode',
+                enabled: this._editMode
+            });
+        }
     }
 
     private _updateAttachments() {
@@ -92,9 +390,60 @@ export class ChatProvider implements vscode.WebviewViewProvider {
         }
     }
 
-    private async _handleSendMessage(text: string) {
+    // Sends a message with the pending attachments as if it was typed in the chat, outside edit mode.
+    // Resolves to the complete answer, or undefined when it was stopped, failed or another answer is
+    // still generating.
+    public sendMessage(text: string): Promise<string | undefined> {
+        return this._handleSendMessage(text, false);
+    }
+
+    public get isGenerating(): boolean {
+        return this._abortController !== undefined && !this._abortController.signal.aborted;
+    }
+
+    private async _handleSendMessage(text: string, editMode: boolean = this._editMode, editAttempt: number = 0): Promise<string | undefined> {
+        const invocation = this._slashCommands.parse(text);
+        if (invocation?.command.action === 'clear') {
+            this._clearChat();
+            return undefined;
+        }
+        if (invocation?.command.action === 'new') {
+            this._newSession();
+            if (!invocation.input) {
+                return undefined;
+            }
+            // "/new question" starts the new conversation with that question
+            return this._handleSendMessage(invocation.input, editMode);
+        }
+
         if (!text.trim() && this._pendingAttachments.length === 0) {
-            return;
+            return undefined;
+        }
+
+        // Only one answer can be generated at a time. Resolving mentions counts as generating, since
+        // git and the symbol providers can take a while. An answer that was stopped (by Stop, Clear or
+        // New) is waited for instead, it only has to unwind.
+        while (this._abortController?.signal.aborted) {
+            await this._generationFinished;
+        }
+        if (this._abortController) {
+            return undefined;
+        }
+        const abortController = this._startGeneration();
+
+        try {
+            await this._attachMentions(text);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to resolve mentions: ${error instanceof Error ? error.message : error}`);
+        }
+
+        if (abortController.signal.aborted) {
+            this._endGeneration();
+            return undefined;
+        }
+
+        if (invocation) {
+            text = this._expandSlashCommand(invocation);
         }
 
         const userMessage: ChatMessage = {
@@ -103,40 +452,171 @@ export class ChatProvider implements vscode.WebviewViewProvider {
             attachments: this._pendingAttachments.length > 0 ? [...this._pendingAttachments] : undefined
         };
 
+        const session = this._session;
+        if (session.messages.length === 0 && session.name === DEFAULT_SESSION_NAME && text.trim()) {
+            session.name = text.trim().length > 40 ? `${text.trim().substring(0, 40)}...` : text.trim();
+        }
+
         this._messages.push(userMessage);
         this._pendingAttachments = [];
 
         // Update UI
         this._updateChat();
         this._updateAttachments();
+        this._saveSession();
 
-        // Send to AI
+        // Stream the answer into a placeholder assistant message
+        const assistantMessage: ChatMessage = {
+            role: 'assistant',
+            content: ''
+        };
+        const history = [...this._messages];
+        this._messages.push(assistantMessage);
+        this._updateChat();
+
+        let answer: string | undefined;
         try {
-            const response = await this._sendToAI(this._messages);
-            const assistantMessage: ChatMessage = {
-                role: 'assistant',
-                content: response
-            };
-            this._messages.push(assistantMessage);
-            this._updateChat();
+            await this._sendToAI(history, assistantMessage, abortController.signal, editMode);
+            answer = assistantMessage.content;
         } catch (error) {
-            const errorMessage: ChatMessage = {
-                role: 'assistant',
-                content: `Error: ${error instanceof Error ? error.message : 'Unknown error occurred'}`
-            };
-            this._messages.push(errorMessage);
+            if ((error instanceof LLMError && error.kind === 'cancelled') || abortController.signal.aborted) {
+                // Stopped by the user - keep whatever was received so far
+                if (!assistantMessage.content) {
+                    session.messages.splice(session.messages.indexOf(assistantMessage), 1);
+                }
+            } else {
+                const errorText = `Error: ${error instanceof Error ? error.message : 'Unknown error occurred'}`;
+                assistantMessage.content = assistantMessage.content
+                    ? `${assistantMessage.content}\n\n${errorText}`
+                    : errorText;
+            }
+        } finally {
+            this._endGeneration();
+            // The user may have switched sessions meanwhile - save the one this answer belongs to,
+            // unless it was deleted
+            if (this._sessionStore.getSession(session.id)) {
+                this._sessionStore.saveSession(session);
+            }
+            this._updateSessions();
             this._updateChat();
         }
+
+        if (answer && editMode) {
+            await this._applyChatEdits(answer, session, editAttempt);
+        }
+        return answer;
+    }
+
+    // Edit mode: applies the edits of an answer through the refactor preview, then sends the ones
+    // that failed back to the model with the current content of their files
+    private async _applyChatEdits(answer: string, session: ChatSession, editAttempt: number) {
+        const blocks = parseEditBlocks(answer);
+        if (blocks.length === 0) {
+            return;
+        }
+
+        try {
+            const prepared = await this._multiFileEditApplier.prepare(blocks);
+            if (prepared.changeCount > 0 && !(await vscode.workspace.applyEdit(prepared.edit))) {
+                return;     // Discarded in the preview
+            }
+
+            if (prepared.failures.length === 0) {
+                return;
+            }
+            if (editAttempt >= MAX_EDIT_RETRIES || this._session !== session) {
+                vscode.window.showWarningMessage(`${prepared.failures.length} of the proposed edits could not be applied`);
+                return;
+            }
+
+            for (const file of new Set(prepared.failures.map(failure => failure.file))) {
+                const uri = await this._codeBlockApplier.resolveWorkspaceFile(file);
+                if (uri && !this._pendingAttachments.some(item => item.type === 'file' && item.name === file)) {
+                    const document = await vscode.workspace.openTextDocument(uri);
+                    this._pendingAttachments.push({ type: 'file', name: file, content: document.getText() });
+                }
+            }
+            await this._handleSendMessage(describeEditFailures(prepared.failures), true, editAttempt + 1);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to apply edits: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    // Attaches the selection or active file when nothing is attached yet and turns the command into its prompt
+    private _expandSlashCommand(invocation: SlashCommandInvocation): string {
+        const { command, input } = invocation;
+        const editor = vscode.window.activeTextEditor || vscode.window.visibleTextEditors[0];
+
+        if (this._pendingAttachments.length === 0 && command.attach !== 'none' && editor) {
+            const fileName = vscode.workspace.asRelativePath(editor.document.uri);
+            const selection = editor.selection;
+            if (command.attach === 'selection' && !selection.isEmpty) {
+                this._pendingAttachments.push({
+                    type: 'selection',
+                    name: fileName,
+                    content: editor.document.getText(selection),
+                    lines: { start: selection.start.line + 1, end: selection.end.line + 1 }
+                });
+            } else {
+                this._pendingAttachments.push({ type: 'file', name: fileName, content: editor.document.getText() });
+            }
+        }
+
+        // The placeholders describe the first attached file or selection
+        const subject = this._pendingAttachments.find(item => item.type !== 'context');
+        const document = subject && vscode.workspace.textDocuments.find(doc => vscode.workspace.asRelativePath(doc.uri) === subject.name);
+
+        return expandTemplate(command.template || '', {
+            input,
+            language: document ? document.languageId : 'source',
+            file: subject ? subject.name : 'the workspace',
+            diagnostics: describeProblems(document && subject ? [[document.uri, vscode.languages.getDiagnostics(document.uri)]] : [], subject?.lines)
+        });
     }
 
-    private async _sendToAI(messages: ChatMessage[]): Promise<string> {
-        const config = vscode.workspace.getConfiguration('aiCopilot');
-        const serverUrl = config.get<string>('serverUrl') || 'http://localhost:1234';
-        const apiKey = config.get<string>('apiKey') || '';
-        const model = config.get<string>('model') || 'local-model';
+    private _startGeneration(): AbortController {
+        const abortController = new AbortController();
+        this._abortController = abortController;
+        this._generationFinished = new Promise(resolve => this._finishGeneration = resolve);
+        this._setGenerating(true);
+        return abortController;
+    }
+
+    private _endGeneration() {
+        this._abortController = undefined;
+        this._setGenerating(false);
+        if (this._finishGeneration) {
+            this._finishGeneration();
+            this._finishGeneration = undefined;
+        }
+    }
+
+    private _stopGeneration() {
+        if (this._abortController) {
+            this._abortController.abort();
+            // The stopped answer still has to unwind, but sends already wait for that
+            this._setGenerating(false);
+        }
+        // Tools waiting for approval are denied
+        for (const id of [...this._pendingApprovals.keys()]) {
+            this._resolveToolApproval(id, false);
+        }
+    }
+
+    // Streams the answer into assistantMessage. Tool calls in the answer are run - read-only tools
+    // right away, the others after approval in the chat view - and their results sent back until
+    // the model answers without calling tools.
+    private async _sendToAI(
+        messages: ChatMessage[],
+        assistantMessage: ChatMessage,
+        signal: AbortSignal,
+        editMode: boolean
+    ): Promise<void> {
+        const profile = getActiveProfile('chat');
+        const backend = createLLMBackend(toBackendSettings(profile));
 
         // Convert messages to API format
-        const apiMessages = messages.map(msg => {
+        const apiMessages: LLMMessage[] = messages.map(msg => {
             let content = msg.content;
             
             if (msg.attachments) {
@@ -146,6 +626,8 @@ export class ChatProvider implements vscode.WebviewViewProvider {
                         content += `\n--- File: ${attachment.name} ---\n${attachment.content}\n`;
                     } else if (attachment.type === 'selection') {
                         content += `\n--- Code from ${attachment.name} (lines ${attachment.lines?.start}-${attachment.lines?.end}) ---\n${attachment.content}\n`;
+                    } else if (attachment.type === 'context') {
+                        content += `\n--- ${attachment.name} ---\n${attachment.content}\n`;
                     }
                 });
             }
@@ -156,33 +638,184 @@ export class ChatProvider implements vscode.WebviewViewProvider {
             };
         });
 
-        const headers: any = {
-            'Content-Type': 'application/json'
-        };
+        const toolSetting = vscode.workspace.getConfiguration('aiCopilot').get<string>('chatTools', 'auto');
+        const tools = toolSetting === 'off' ? [] : this._tools.getDefinitions();
+        // The calls and results of this answer so far, sent after the conversation
+        const transcript: LLMMessage[] = [];
+
+        for (let round = 0; ; round++) {
+            const offerTools = tools.length > 0 && round < MAX_TOOL_ROUNDS;
+            const textTools = toolSetting === 'text' || !backend.supportsTools || this._textToolProfiles.has(profile.name);
+            // The last round still declares native tools, since strict servers reject tool calls in the
+            // transcript otherwise, but no longer lets the model call them
+            const nativeTools = tools.length > 0 && !textTools;
+
+            // Edit mode asks for SEARCH/REPLACE blocks or unified diffs that can be applied to the workspace
+            const instructions = [
+                offerTools && textTools ? buildTextToolInstructions(tools) : '',
+                editMode ? EDIT_FORMAT_INSTRUCTIONS : ''
+            ].filter(text => text).join('\n\n');
+            const reservedTokens = [instructions, ...transcript.map(message => message.content + JSON.stringify(message.toolCalls || ''))]
+                .reduce((sum, text) => sum + tokenizerService.countTokens(text, profile.model) + 4, 0);
+            const fitted: LLMMessage[] = [
+                ...(instructions ? [{ role: 'system' as const, content: instructions }] : []),
+                ...this._fitToContextWindow(apiMessages, profile, reservedTokens),
+                ...transcript
+            ];
+
+            const start = assistantMessage.content.length;
+            let response: LLMResponse;
+            try {
+                response = await backend.streamChat(fitted, {
+                    model: profile.model,
+                    temperature: profile.temperature,
+                    maxTokens: profile.maxTokens,
+                    signal,
+                    tools: nativeTools ? tools : undefined,
+                    toolChoice: nativeTools && !offerTools ? 'none' : undefined
+                }, delta => {
+                    assistantMessage.content += delta;
+                    this._updateStreamingMessage(assistantMessage.content);
+                });
+            } catch (error) {
+                // Servers without tool support tend to reject the request; retry with the text protocol
+                const rejected = error instanceof LLMError && error.kind === 'server' && (error.status === 400 || error.status === 422);
+                if (offerTools && nativeTools && rejected && assistantMessage.content.length === start) {
+                    this._textToolProfiles.add(profile.name);
+                    round--;
+                    continue;
+                }
+                throw error;
+            }
 
-        if (apiKey) {
-            headers['Authorization'] = `Bearer ${apiKey}`;
+            const text = assistantMessage.content.substring(start);
+            const parsed = offerTools && textTools ? parseTextToolCalls(text) : { calls: offerTools ? response.toolCalls || [] : [], text };
+            if (parsed.calls.length === 0) {
+                return;
+            }
+
+            // The raw calls are replaced with a line per tool in the chat
+            const notes = parsed.calls.map(call => {
+                const tool = this._tools.get(call.name);
+                return `→ \`${call.name}\` ${tool ? tool.describe(parseToolArguments(call.arguments)) : ''}`.trimEnd();
+            });
+            assistantMessage.content = `${assistantMessage.content.substring(0, start)}${[parsed.text.trim(), notes.join('\n')].filter(part => part).join('\n\n')}\n\n`;
+            this._updateStreamingMessage(assistantMessage.content);
+
+            const results: Array<{ call: LLMToolCall; result: string }> = [];
+            for (const call of parsed.calls) {
+                results.push({ call, result: await this._runTool(call, signal) });
+            }
+            if (signal.aborted) {
+                throw new LLMError('Request cancelled', 'cancelled');
+            }
+
+            if (textTools) {
+                transcript.push(
+                    { role: 'assistant', content: text },
+                    { role: 'user', content: formatTextToolResults(results) }
+                );
+            } else {
+                transcript.push(
+                    { role: 'assistant', content: text, toolCalls: parsed.calls },
+                    ...results.map(({ call, result }) => ({ role: 'tool' as const, content: result, toolCallId: call.id }))
+                );
+            }
+        }
+    }
+
+    private async _runTool(call: LLMToolCall, signal: AbortSignal): Promise<string> {
+        const tool = this._tools.get(call.name);
+        if (!tool) {
+            return `Error: there is no tool named ${call.name}`;
         }
 
-        const response = await axios.post(
-            `${serverUrl}/v1/chat/completions`,
-            {
-                model: model,
-                messages: apiMessages,
-                temperature: 0.7,
-                max_tokens: 2000
-            },
-            { headers }
-        );
+        const args = parseToolArguments(call.arguments);
+        if (!tool.readOnly && !(await this._requestToolApproval(call.name, tool.describe(args), args, signal))) {
+            return 'The user denied this tool call.';
+        }
 
-        return response.data.choices[0].message.content;
+        try {
+            return await tool.run(args);
+        } catch (error) {
+            return `Error: ${error instanceof Error ? error.message : error}`;
+        }
+    }
+
+    // Asks in the chat view before running a tool that changes the workspace
+    private _requestToolApproval(tool: string, description: string, args: Record<string, any>, signal: AbortSignal): Promise<boolean> {
+        const view = this._view;
+        if (!view || signal.aborted) {
+            return Promise.resolve(false);
+        }
+
+        const id = `approval-${this._nextApprovalId++}`;
+        return new Promise(resolve => {
+            this._pendingApprovals.set(id, resolve);
+            view.webview.postMessage({
+                type: 'toolApproval',
+                id,
+                tool,
+                description,
+                details: JSON.stringify(args, null, 2)
+            });
+        });
+    }
+
+    private _resolveToolApproval(id: string, approved: boolean) {
+        const resolve = this._pendingApprovals.get(id);
+        if (!resolve) {
+            return;
+        }
+
+        this._pendingApprovals.delete(id);
+        if (this._view) {
+            this._view.webview.postMessage({ type: 'toolApprovalDone', id });
+        }
+        resolve(approved);
+    }
+
+    // Drops the oldest messages until the conversation and the reply fit the model's context window.
+    // The latest message is always sent, truncated if it is too large on its own.
+    private _fitToContextWindow(messages: LLMMessage[], profile: ModelProfile, reservedTokens: number = 0): LLMMessage[] {
+        const tokenizer = tokenizerService.getTokenizer(profile.model);
+        const budget = profile.contextWindow - profile.maxTokens - reservedTokens;
+        // Role markers and separators the chat template adds around every message
+        const messageTokens = (message: LLMMessage) => tokenizer.countTokens(message.content) + 4;
+
+        const fitted: LLMMessage[] = [];
+        let used = 0;
+        for (let i = messages.length - 1; i >= 0; i--) {
+            const tokens = messageTokens(messages[i]);
+            if (used + tokens > budget) {
+                break;
+            }
+            fitted.unshift(messages[i]);
+            used += tokens;
+        }
+
+        if (fitted.length > 0 || messages.length === 0) {
+            return fitted;
+        }
+
+        const last = messages[messages.length - 1];
+        const marker = '\n\n[... truncated to fit the model context window]';
+        let content = last.content;
+        let tokens = messageTokens(last);
+        while (tokens > budget && content.length > 0) {
+            content = content.substring(0, Math.floor(content.length * (budget / tokens) * 0.95));
+            tokens = tokenizer.countTokens(content + marker) + 4;
+        }
+        return [{ role: last.role, content: content + marker }];
     }
 
     private _clearChat() {
+        this._stopGeneration();
         this._messages = [];
         this._pendingAttachments = [];
         this._updateChat();
         this._updateAttachments();
+        this._saveSession();
     }
 
     private _updateChat() {
@@ -194,6 +827,24 @@ export class ChatProvider implements vscode.WebviewViewProvider {
         }
     }
 
+    private _updateStreamingMessage(content: string) {
+        if (this._view) {
+            this._view.webview.postMessage({
+                type: 'updateStreamingMessage',
+                content: content
+            });
+        }
+    }
+
+    private _setGenerating(generating: boolean) {
+        if (this._view) {
+            this._view.webview.postMessage({
+                type: 'setGenerating',
+                generating: generating
+            });
+        }
+    }
+
     private _getHtmlForWebview(webview: vscode.Webview): string {
         return `<!DOCTYPE html>
 <html lang="en">
@@ -222,6 +873,53 @@ export class ChatProvider implements vscode.WebviewViewProvider {
             align-items: center;
         }
         
+        .header-actions {
+            display: flex;
+            gap: 8px;
+            align-items: center;
+        }
+        
+        .edit-mode {
+            display: flex;
+            gap: 4px;
+            align-items: center;
+            font-size: 12px;
+            cursor: pointer;
+        }
+        
+        .session-bar {
+            padding: 6px 10px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+            display: flex;
+            gap: 4px;
+            align-items: center;
+        }
+        
+        .session-select {
+            flex: 1;
+            min-width: 0;
+            background: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border: 1px solid var(--vscode-dropdown-border);
+            border-radius: 4px;
+            padding: 4px;
+            font-family: inherit;
+        }
+        
+        .session-button {
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: none;
+            border-radius: 4px;
+            padding: 4px 8px;
+            cursor: pointer;
+            font-family: inherit;
+        }
+        
+        .session-button:hover {
+            background: var(--vscode-button-secondaryHoverBackground);
+        }
+        
         .chat-messages {
             flex: 1;
             overflow-y: auto;
@@ -281,6 +979,35 @@ export class ChatProvider implements vscode.WebviewViewProvider {
             padding: 10px;
             display: flex;
             gap: 8px;
+            position: relative;
+        }
+        
+        .suggest-popup {
+            display: none;
+            position: absolute;
+            bottom: 100%;
+            left: 10px;
+            right: 10px;
+            max-height: 200px;
+            overflow-y: auto;
+            background: var(--vscode-editorSuggestWidget-background);
+            border: 1px solid var(--vscode-editorSuggestWidget-border);
+            border-radius: 4px;
+        }
+        
+        .suggest-item {
+            padding: 4px 8px;
+            cursor: pointer;
+        }
+        
+        .suggest-item.selected {
+            background: var(--vscode-editorSuggestWidget-selectedBackground);
+            color: var(--vscode-editorSuggestWidget-selectedForeground);
+        }
+        
+        .suggest-item .suggest-description {
+            opacity: 0.7;
+            margin-left: 8px;
         }
         
         .message-input {
@@ -294,7 +1021,7 @@ export class ChatProvider implements vscode.WebviewViewProvider {
             font-size: inherit;
         }
         
-        .send-button, .clear-button {
+        .send-button, .clear-button, .stop-button {
             background: var(--vscode-button-background);
             color: var(--vscode-button-foreground);
             border: none;
@@ -304,10 +1031,14 @@ export class ChatProvider implements vscode.WebviewViewProvider {
             font-family: inherit;
         }
         
-        .send-button:hover, .clear-button:hover {
+        .send-button:hover, .clear-button:hover, .stop-button:hover {
             background: var(--vscode-button-hoverBackground);
         }
         
+        .stop-button {
+            display: none;
+        }
+        
         .clear-button {
             background: var(--vscode-button-secondaryBackground);
             color: var(--vscode-button-secondaryForeground);
@@ -322,6 +1053,76 @@ export class ChatProvider implements vscode.WebviewViewProvider {
             margin: 8px 0;
         }
         
+        .code-block {
+            margin: 8px 0;
+        }
+        
+        .code-block pre {
+            margin: 0;
+        }
+        
+        .code-actions {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 4px;
+            margin-bottom: 4px;
+        }
+        
+        .code-actions button {
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: none;
+            border-radius: 3px;
+            padding: 2px 6px;
+            font-size: 11px;
+            cursor: pointer;
+            font-family: inherit;
+        }
+        
+        .code-actions button:hover {
+            background: var(--vscode-button-secondaryHoverBackground);
+        }
+        
+        .tool-approval {
+            margin: 0 10px 10px;
+            padding: 8px;
+            border: 1px solid var(--vscode-inputValidation-warningBorder);
+            border-radius: 4px;
+            background: var(--vscode-inputValidation-warningBackground);
+            font-size: 12px;
+        }
+        
+        .tool-approval pre {
+            max-height: 200px;
+            overflow: auto;
+            white-space: pre-wrap;
+        }
+        
+        .tool-approval-actions {
+            display: flex;
+            gap: 4px;
+        }
+        
+        .tool-approval-actions button {
+            background: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            border-radius: 3px;
+            padding: 4px 8px;
+            cursor: pointer;
+            font-family: inherit;
+        }
+        
+        .tool-approval-actions button[data-approve="false"] {
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+        
+        pre code {
+            background: none;
+            padding: 0;
+        }
+        
         code {
             background: var(--vscode-textPreformat-background);
             padding: 2px 4px;
@@ -333,25 +1134,49 @@ export class ChatProvider implements vscode.WebviewViewProvider {
 <body>
     <div class="chat-header">
         <h3>AI Copilot Chat</h3>
-        <button class="clear-button" onclick="clearChat()">Clear</button>
+        <div class="header-actions">
+            <label class="edit-mode" title="Ask for edits that are applied to the workspace through the refactor preview">
+                <input type="checkbox" id="editMode" onchange="setEditMode(this.checked)" /> Edit files
+            </label>
+            <button class="clear-button" onclick="clearChat()">Clear</button>
+        </div>
+    </div>
+    
+    <div class="session-bar">
+        <select class="session-select" id="sessionSelect" onchange="switchSession(this.value)"></select>
+        <button class="session-button" onclick="newSession()" title="New chat">+</button>
+        <button class="session-button" onclick="renameSession()" title="Rename chat">Rename</button>
+        <button class="session-button" onclick="deleteSession()" title="Delete chat">Delete</button>
     </div>
     
     <div class="chat-messages" id="chatMessages"></div>
     
+    <div id="toolApprovals"></div>
+    
     <div class="pending-attachments" id="pendingAttachments" style="display: none;">
         <div style="margin-bottom: 5px; font-size: 12px; opacity: 0.8;">Attached files:</div>
         <div id="attachmentList"></div>
     </div>
     
     <div class="input-container">
-        <input type="text" class="message-input" id="messageInput" placeholder="Type your message..." />
-        <button class="send-button" onclick="sendMessage()">Send</button>
+        <div class="suggest-popup" id="suggestPopup"></div>
+        <input type="text" class="message-input" id="messageInput" placeholder="Type your message, / for commands or @ to attach context..." />
+        <button class="send-button" id="sendButton" onclick="sendMessage()">Send</button>
+        <button class="stop-button" id="stopButton" onclick="stopGeneration()">Stop</button>
     </div>
 
     <script>
         const vscode = acquireVsCodeApi();
         let messages = [];
         let pendingAttachments = [];
+        let isGenerating = false;
+        let slashCommands = [];
+        const mentionKinds = ${JSON.stringify(MENTION_KINDS)};
+        let mentionRequestId = 0;
+        let mentionTimer;
+        let suggestions = [];
+        let suggestionSelected = 0;
+        let suggestionStart = 0;
 
         window.addEventListener('message', event => {
             const message = event.data;
@@ -364,6 +1189,40 @@ export class ChatProvider implements vscode.WebviewViewProvider {
                     pendingAttachments = message.attachments;
                     updateAttachmentsUI();
                     break;
+                case 'updateSessions':
+                    updateSessionsUI(message.sessions, message.activeId);
+                    break;
+                case 'updateStreamingMessage':
+                    updateStreamingMessageUI(message.content);
+                    break;
+                case 'updateSlashCommands':
+                    slashCommands = message.commands;
+                    updateSuggestions();
+                    break;
+                case 'updateEditMode':
+                    document.getElementById('editMode').checked = message.enabled;
+                    break;
+                case 'mentionSuggestions':
+                    // Answers to outdated queries are dropped
+                    if (message.requestId === mentionRequestId) {
+                        showSuggestions(message.suggestions);
+                    }
+                    break;
+                case 'toolApproval':
+                    showToolApproval(message);
+                    break;
+                case 'toolApprovalDone': {
+                    const approval = document.querySelector(\`.tool-approval[data-id="\${message.id}"]\`);
+                    if (approval) {
+                        approval.remove();
+                    }
+                    break;
+                }
+                case 'setGenerating':
+                    isGenerating = message.generating;
+                    document.getElementById('sendButton').style.display = isGenerating ? 'none' : 'block';
+                    document.getElementById('stopButton').style.display = isGenerating ? 'block' : 'none';
+                    break;
             }
         });
 
@@ -378,21 +1237,62 @@ export class ChatProvider implements vscode.WebviewViewProvider {
                 .replace(/'/g, "&#039;");
         }
 
+        function formatText(text) {
+            let content = escapeHtml(text);
+            // Simple markdown-like formatting
+            content = content.replace(/\`([^\`]*)\`/g, '<code>$1</code>');
+            content = content.replace(/\\n/g, '<br>');
+            return content;
+        }
+
+        function formatContent(text, role) {
+            // Split out fenced code blocks so they keep their newlines and get action buttons
+            const parts = (text || '').split('\`\`\`');
+            let html = '';
+            
+            parts.forEach((part, index) => {
+                if (index % 2 === 0) {
+                    html += formatText(part);
+                    return;
+                }
+                
+                const code = part.replace(/^[\\w+#.-]*\\n/, '').replace(/\\n$/, '');
+                const actions = role === 'assistant' ? \`<div class="code-actions">
+                    <button data-code-action="copy">Copy</button>
+                    <button data-code-action="insert">Insert at Cursor</button>
+                    <button data-code-action="replace">Replace Selection</button>
+                    <button data-code-action="apply">Apply to File</button>
+                </div>\` : '';
+                html += \`<div class="code-block">\${actions}<pre><code>\${escapeHtml(code)}</code></pre></div>\`;
+            });
+            
+            return html;
+        }
+
+        function updateStreamingMessageUI(text) {
+            const chatMessages = document.getElementById('chatMessages');
+            const lastMessage = chatMessages.lastElementChild;
+            if (!lastMessage || !lastMessage.classList.contains('assistant')) {
+                return;
+            }
+
+            if (messages.length > 0) {
+                messages[messages.length - 1].content = text;
+            }
+            lastMessage.innerHTML = formatContent(text, 'assistant');
+            chatMessages.scrollTop = chatMessages.scrollHeight;
+        }
+
         function updateChatUI() {
             const chatMessages = document.getElementById('chatMessages');
             chatMessages.innerHTML = '';
             
-            messages.forEach(message => {
+            messages.forEach((message, index) => {
                 const messageDiv = document.createElement('div');
                 messageDiv.className = \`message \${message.role}\`;
+                messageDiv.dataset.index = index;
                 
-                let content = escapeHtml(message.content);
-                // Simple markdown-like formatting
-                content = content.replace(/\`\`\`([\\s\\S]*?)\`\`\`/g, '<pre><code>$1</code></pre>');
-                content = content.replace(/\`([^\`]*)\`/g, '<code>$1</code>');
-                content = content.replace(/\\n/g, '<br>');
-                
-                messageDiv.innerHTML = content;
+                messageDiv.innerHTML = formatContent(message.content, message.role);
                 
                 if (message.attachments) {
                     const attachmentsDiv = document.createElement('div');
@@ -400,7 +1300,7 @@ export class ChatProvider implements vscode.WebviewViewProvider {
                     message.attachments.forEach(attachment => {
                         const attachmentSpan = document.createElement('span');
                         attachmentSpan.className = 'attachment';
-                        attachmentSpan.textContent = attachment.type === 'file' ? 
+                        attachmentSpan.textContent = attachment.type !== 'selection' ? 
                             \`ðŸ“„ \${attachment.name}\` : 
                             \`ðŸ“ \${attachment.name} (\${attachment.lines?.start}-\${attachment.lines?.end})\`;
                         attachmentsDiv.appendChild(attachmentSpan);
@@ -414,6 +1314,19 @@ export class ChatProvider implements vscode.WebviewViewProvider {
             chatMessages.scrollTop = chatMessages.scrollHeight;
         }
 
+        function updateSessionsUI(sessions, activeId) {
+            const select = document.getElementById('sessionSelect');
+            select.innerHTML = '';
+            
+            sessions.forEach(session => {
+                const option = document.createElement('option');
+                option.value = session.id;
+                option.textContent = session.name;
+                option.selected = session.id === activeId;
+                select.appendChild(option);
+            });
+        }
+
         function updateAttachmentsUI() {
             const pendingDiv = document.getElementById('pendingAttachments');
             const attachmentList = document.getElementById('attachmentList');
@@ -425,7 +1338,7 @@ export class ChatProvider implements vscode.WebviewViewProvider {
                 pendingAttachments.forEach((attachment, index) => {
                     const attachmentSpan = document.createElement('span');
                     attachmentSpan.className = 'attachment';
-                    attachmentSpan.innerHTML = \`\${attachment.type === 'file' ? 'ðŸ“„' : 'ðŸ“'} \${attachment.name}\${attachment.lines ? \` (\${attachment.lines.start}-\${attachment.lines.end})\` : ''} âŒ\`;
+                    attachmentSpan.innerHTML = \`\${attachment.type !== 'selection' ? 'ðŸ“„' : 'ðŸ“'} \${escapeHtml(attachment.name)}\${attachment.lines ? \` (\${attachment.lines.start}-\${attachment.lines.end})\` : ''} âŒ\`;
                     attachmentSpan.onclick = () => removeAttachment(index);
                     attachmentList.appendChild(attachmentSpan);
                 });
@@ -438,12 +1351,17 @@ export class ChatProvider implements vscode.WebviewViewProvider {
             const input = document.getElementById('messageInput');
             const text = input.value.trim();
             
+            if (isGenerating) {
+                return;
+            }
+            
             if (text || pendingAttachments.length > 0) {
                 vscode.postMessage({
                     type: 'sendMessage',
                     text: text
                 });
                 input.value = '';
+                updateSuggestions();
             }
         }
 
@@ -454,18 +1372,204 @@ export class ChatProvider implements vscode.WebviewViewProvider {
             });
         }
 
+        function stopGeneration() {
+            vscode.postMessage({
+                type: 'stopGeneration'
+            });
+        }
+
+        function newSession() {
+            vscode.postMessage({ type: 'newSession' });
+        }
+
+        function switchSession(id) {
+            vscode.postMessage({ type: 'switchSession', id: id });
+        }
+
+        function renameSession() {
+            vscode.postMessage({ type: 'renameSession' });
+        }
+
+        function deleteSession() {
+            vscode.postMessage({ type: 'deleteSession' });
+        }
+
+        function setEditMode(enabled) {
+            vscode.postMessage({ type: 'setEditMode', enabled: enabled });
+        }
+
         function clearChat() {
             vscode.postMessage({
                 type: 'clearChat'
             });
         }
 
-        // Enter key to send message
-        document.getElementById('messageInput').addEventListener('keypress', function(e) {
+        // Code block buttons: Copy, Insert at Cursor, Replace Selection, Apply to File
+        document.getElementById('chatMessages').addEventListener('click', function(e) {
+            const button = e.target.closest('[data-code-action]');
+            if (!button) {
+                return;
+            }
+            
+            const messageDiv = button.closest('.message');
+            const code = button.closest('.code-block').querySelector('code').textContent;
+            vscode.postMessage({
+                type: 'codeAction',
+                action: button.dataset.codeAction,
+                code: code,
+                messageIndex: Number(messageDiv.dataset.index)
+            });
+        });
+
+        // Tools that change the workspace wait for the user to approve or deny the call
+        function showToolApproval(request) {
+            const approval = document.createElement('div');
+            approval.className = 'tool-approval';
+            approval.dataset.id = request.id;
+            approval.innerHTML = \`<div>The model wants to run <code>\${escapeHtml(request.tool)}</code> on \${escapeHtml(request.description)}</div>
+                <pre>\${escapeHtml(request.details)}</pre>
+                <div class="tool-approval-actions">
+                    <button data-approve="true">Approve</button>
+                    <button data-approve="false">Deny</button>
+                </div>\`;
+            document.getElementById('toolApprovals').appendChild(approval);
+        }
+
+        document.getElementById('toolApprovals').addEventListener('click', function(e) {
+            const button = e.target.closest('[data-approve]');
+            if (!button) {
+                return;
+            }
+
+            vscode.postMessage({
+                type: 'toolApprovalResponse',
+                id: button.closest('.tool-approval').dataset.id,
+                approved: button.dataset.approve === 'true'
+            });
+        });
+
+        // Autocomplete for slash commands (the input is just "/" and a partial name) and for
+        // @-mentions at the caret; file and symbol suggestions are looked up by the extension
+        function updateSuggestions() {
+            const input = document.getElementById('messageInput');
+            const before = input.value.substring(0, input.selectionStart);
+
+            const slash = input.value.match(/^\\/([\\w-]*)$/);
+            if (slash && before === input.value) {
+                suggestionStart = 0;
+                showSuggestions(slashCommands
+                    .filter(command => command.name.startsWith(slash[1]))
+                    .map(command => ({ label: '/' + command.name, description: command.description, insert: '/' + command.name + ' ' })));
+                return;
+            }
+
+            const mention = before.match(/(?:^|\\s)@(\\w*)(?::("?[^\\s"]*))?$/);
+            if (!mention) {
+                showSuggestions([]);
+                return;
+            }
+            suggestionStart = mention.index + (/^\\s/.test(mention[0]) ? 1 : 0);
+
+            if (mention[2] === undefined) {
+                showSuggestions(mentionKinds
+                    .filter(entry => entry.kind.startsWith(mention[1]))
+                    .map(entry => ({ label: '@' + entry.kind, description: entry.description, insert: '@' + entry.kind + (entry.takesArgument ? ':' : ' ') })));
+                return;
+            }
+
+            const kind = mentionKinds.find(entry => entry.kind === mention[1]);
+            if (!kind || !kind.takesArgument) {
+                showSuggestions([]);
+                return;
+            }
+
+            const requestId = ++mentionRequestId;
+            clearTimeout(mentionTimer);
+            mentionTimer = setTimeout(() => {
+                vscode.postMessage({ type: 'mentionQuery', kind: kind.kind, query: mention[2].replace(/^"/, ''), requestId: requestId });
+            }, 150);
+        }
+
+        function showSuggestions(items) {
+            const popup = document.getElementById('suggestPopup');
+            suggestions = items;
+            suggestionSelected = Math.min(suggestionSelected, Math.max(0, suggestions.length - 1));
+
+            if (suggestions.length === 0) {
+                popup.style.display = 'none';
+                return;
+            }
+
+            popup.innerHTML = '';
+            suggestions.forEach((suggestion, index) => {
+                const item = document.createElement('div');
+                item.className = index === suggestionSelected ? 'suggest-item selected' : 'suggest-item';
+                item.innerHTML = \`<strong>\${escapeHtml(suggestion.label)}</strong><span class="suggest-description">\${escapeHtml(suggestion.description)}</span>\`;
+                item.onmousedown = e => {
+                    e.preventDefault();
+                    applySuggestion(index);
+                };
+                popup.appendChild(item);
+            });
+            popup.style.display = 'block';
+            popup.children[suggestionSelected].scrollIntoView({ block: 'nearest' });
+        }
+
+        // Replaces the command or mention being typed with the suggestion
+        function applySuggestion(index) {
+            const input = document.getElementById('messageInput');
+            const insert = suggestions[index].insert;
+            input.value = input.value.substring(0, suggestionStart) + insert + input.value.substring(input.selectionStart);
+            input.setSelectionRange(suggestionStart + insert.length, suggestionStart + insert.length);
+            input.focus();
+            suggestionSelected = 0;
+            updateSuggestions();
+        }
+
+        function isSuggestionVisible() {
+            return suggestions.length > 0 && document.getElementById('suggestPopup').style.display !== 'none';
+        }
+
+        document.getElementById('messageInput').addEventListener('input', function() {
+            suggestionSelected = 0;
+            updateSuggestions();
+        });
+
+        document.getElementById('messageInput').addEventListener('blur', function() {
+            document.getElementById('suggestPopup').style.display = 'none';
+        });
+
+        // Arrow keys, Tab and Escape drive the suggestion popup; Enter completes the selected
+        // suggestion unless it is already typed out, otherwise it sends the message
+        document.getElementById('messageInput').addEventListener('keydown', function(e) {
+            if (isSuggestionVisible()) {
+                if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                    e.preventDefault();
+                    suggestionSelected = (suggestionSelected + (e.key === 'ArrowDown' ? 1 : suggestions.length - 1)) % suggestions.length;
+                    showSuggestions(suggestions);
+                    return;
+                }
+                const typed = this.value.substring(suggestionStart, this.selectionStart);
+                if (e.key === 'Tab' || (e.key === 'Enter' && typed !== suggestions[suggestionSelected].insert.trim())) {
+                    e.preventDefault();
+                    applySuggestion(suggestionSelected);
+                    return;
+                }
+                if (e.key === 'Escape') {
+                    e.preventDefault();
+                    document.getElementById('suggestPopup').style.display = 'none';
+                    return;
+                }
+            }
+
             if (e.key === 'Enter') {
+                e.preventDefault();
                 sendMessage();
             }
         });
+
+        // Ask the extension for the restored session once the page is ready
+        vscode.postMessage({ type: 'ready' });
     </script>
 </body>
 </html>`;
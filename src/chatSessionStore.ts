@@ -0,0 +1,92 @@
+// chatSessionStore.ts
+import * as vscode from 'vscode';
+import { AttachedItem, ChatMessage } from './chatProvider';
+
+export interface ChatSession {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    messages: ChatMessage[];
+    pendingAttachments: AttachedItem[];
+}
+
+export interface ChatSessionSummary {
+    id: string;
+    name: string;
+    updatedAt: number;
+}
+
+export const DEFAULT_SESSION_NAME = 'New Chat';
+
+// Persists chat sessions in the workspace state so they survive window reloads
+export class ChatSessionStore {
+    private static readonly sessionsKey = 'aiCopilot.chatSessions';
+    private static readonly activeSessionKey = 'aiCopilot.activeChatSession';
+
+    constructor(private readonly state: vscode.Memento) {}
+
+    public getSessions(): ChatSessionSummary[] {
+        return this.readSessions()
+            .map(session => ({ id: session.id, name: session.name, updatedAt: session.updatedAt }))
+            .sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+
+    public getSession(id: string): ChatSession | undefined {
+        return this.readSessions().find(session => session.id === id);
+    }
+
+    // Returns the last active session, falling back to the most recent one or a new one
+    public getActiveSession(): ChatSession {
+        const activeId = this.state.get<string>(ChatSessionStore.activeSessionKey);
+        const active = activeId ? this.getSession(activeId) : undefined;
+        if (active) {
+            return active;
+        }
+
+        const [mostRecent] = this.getSessions();
+        if (mostRecent) {
+            const session = this.getSession(mostRecent.id)!;
+            this.setActiveSession(session.id);
+            return session;
+        }
+
+        return this.createSession();
+    }
+
+    public setActiveSession(id: string) {
+        this.state.update(ChatSessionStore.activeSessionKey, id);
+    }
+
+    public createSession(name: string = DEFAULT_SESSION_NAME): ChatSession {
+        const now = Date.now();
+        const session: ChatSession = {
+            id: `${now.toString(36)}-${Math.random().toString(36).substring(2, 8)}`,
+            name,
+            createdAt: now,
+            updatedAt: now,
+            messages: [],
+            pendingAttachments: []
+        };
+
+        this.saveSession(session);
+        this.setActiveSession(session.id);
+        return session;
+    }
+
+    public saveSession(session: ChatSession) {
+        session.updatedAt = Date.now();
+        const sessions = this.readSessions().filter(existing => existing.id !== session.id);
+        sessions.push(session);
+        this.state.update(ChatSessionStore.sessionsKey, sessions);
+    }
+
+    public deleteSession(id: string) {
+        const sessions = this.readSessions().filter(session => session.id !== id);
+        this.state.update(ChatSessionStore.sessionsKey, sessions);
+    }
+
+    private readSessions(): ChatSession[] {
+        return this.state.get<ChatSession[]>(ChatSessionStore.sessionsKey, []);
+    }
+}
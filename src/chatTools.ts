@@ -0,0 +1,389 @@
+// chatTools.ts
+import * as vscode from 'vscode';
+import { CodeBlockApplier } from './codeBlockApplier';
+import { LLMToolCall, LLMToolDefinition } from './llmClient';
+import { describeProblems } from './problems';
+import { FILE_EXCLUDE } from './mentions';
+import { MultiFileEditApplier } from './multiFileEdit';
+
+export interface ChatTool {
+    definition: LLMToolDefinition;
+    // Read-only tools run without asking; the others wait for approval in the chat view
+    readOnly: boolean;
+    // Short description of a call for the chat transcript and the approval prompt
+    describe(args: Record<string, any>): string;
+    run(args: Record<string, any>): Promise<string>;
+}
+
+const MAX_READ_LINES = 300;
+const MAX_FILE_BYTES = 1024 * 1024;
+const MAX_GREP_FILES = 2000;
+const MAX_GREP_RESULTS = 50;
+const MAX_SYMBOLS = 30;
+const MAX_LINE_LENGTH = 200;
+
+// Describes the tools to models without native tool calling
+export function buildTextToolInstructions(tools: LLMToolDefinition[]): string {
+    const list = tools.map(tool => `- ${tool.name}: ${tool.description}\n  Parameters (JSON schema): ${JSON.stringify(tool.parameters)}`);
+    return `You can use tools to look at the user's workspace before answering. To call a tool, reply with one or more blocks like this and nothing after them:
+
+<tool_call>
+{"name": "read_file", "arguments": {"path": "src/index.ts"}}
+</tool_call>
+
+The results come back in <tool_result> blocks in the next message. Only call tools when you need information you don't have; when you have enough, answer normally without any <tool_call> block.
+
+Available tools:
+${list.join('\n')}`;
+}
+
+// Tool calls written as text, in <tool_call> tags or ```tool_call fences; the text is returned
+// without them
+export function parseTextToolCalls(text: string): { calls: LLMToolCall[]; text: string } {
+    const calls: LLMToolCall[] = [];
+    const pattern = /<tool_call>\s*([\s\S]*?)\s*<\/tool_call>|```tool_call\s*\n([\s\S]*?)\n\s*```/g;
+
+    const remaining = text.replace(pattern, (block, tagged: string | undefined, fenced: string | undefined) => {
+        try {
+            const parsed = JSON.parse(tagged ?? fenced ?? '');
+            if (parsed && typeof parsed.name === 'string') {
+                const args = parsed.arguments ?? parsed.parameters ?? {};
+                calls.push({
+                    id: `call_${calls.length}`,
+                    name: parsed.name,
+                    arguments: typeof args === 'string' ? args : JSON.stringify(args)
+                });
+                return '';
+            }
+        } catch {
+            // Not a valid call - leave it in the text
+        }
+        return block;
+    });
+
+    return { calls, text: remaining };
+}
+
+export function formatTextToolResults(results: Array<{ call: LLMToolCall; result: string }>): string {
+    return results
+        .map(({ call, result }) => `<tool_result name="${call.name}">\n${result}\n</tool_result>`)
+        .join('\n\n');
+}
+
+// The built-in tools the chat model can call: reading files, searching the workspace, listing
+// directories, reading diagnostics, finding symbols and (with approval) editing files
+export class ChatToolRegistry {
+    private readonly tools: Map<string, ChatTool> = new Map();
+    private readonly editApplier: MultiFileEditApplier;
+
+    constructor(codeBlockApplier: CodeBlockApplier) {
+        this.editApplier = new MultiFileEditApplier(codeBlockApplier);
+
+        this.register({
+            definition: {
+                name: 'read_file',
+                description: `Read a workspace file, optionally only a range of lines. At most ${MAX_READ_LINES} lines are returned per call.`,
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        path: { type: 'string', description: 'Workspace-relative file path' },
+                        startLine: { type: 'integer', description: 'First line to read, 1-based (default 1)' },
+                        endLine: { type: 'integer', description: 'Last line to read, inclusive' }
+                    },
+                    required: ['path']
+                }
+            },
+            readOnly: true,
+            describe: args => args.startLine || args.endLine
+                ? `${args.path} lines ${args.startLine || 1}-${args.endLine || 'end'}`
+                : `${args.path}`,
+            run: args => this.readFile(args)
+        });
+
+        this.register({
+            definition: {
+                name: 'grep_workspace',
+                description: `Search the text of workspace files. Returns up to ${MAX_GREP_RESULTS} matching lines as path:line: text.`,
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        pattern: { type: 'string', description: 'Text or regular expression to search for' },
+                        isRegex: { type: 'boolean', description: 'Treat pattern as a regular expression (default false)' },
+                        caseSensitive: { type: 'boolean', description: 'Match case (default false)' },
+                        include: { type: 'string', description: 'Glob of files to search, e.g. "src/**/*.ts" (default all files)' }
+                    },
+                    required: ['pattern']
+                }
+            },
+            readOnly: true,
+            describe: args => `"${args.pattern}"${args.include ? ` in ${args.include}` : ''}`,
+            run: args => this.grepWorkspace(args)
+        });
+
+        this.register({
+            definition: {
+                name: 'list_directory',
+                description: 'List the files and folders in a workspace directory. Folders end with "/".',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        path: { type: 'string', description: 'Workspace-relative directory path (default the workspace root)' }
+                    }
+                }
+            },
+            readOnly: true,
+            describe: args => args.path || '/',
+            run: args => this.listDirectory(args)
+        });
+
+        this.register({
+            definition: {
+                name: 'get_diagnostics',
+                description: 'Get the errors and warnings reported by compilers and linters, for one file or the whole workspace.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        path: { type: 'string', description: 'Workspace-relative file path (default all files)' }
+                    }
+                }
+            },
+            readOnly: true,
+            describe: args => args.path || 'workspace',
+            run: args => this.getDiagnostics(args)
+        });
+
+        this.register({
+            definition: {
+                name: 'find_symbol',
+                description: `Find classes, functions, methods and other symbols by name across the workspace. Returns up to ${MAX_SYMBOLS} locations.`,
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        query: { type: 'string', description: 'Symbol name or part of it' }
+                    },
+                    required: ['query']
+                }
+            },
+            readOnly: true,
+            describe: args => `${args.query}`,
+            run: args => this.findSymbol(args)
+        });
+
+        this.register({
+            definition: {
+                name: 'edit_file',
+                description: 'Replace text in a workspace file, or create a file when search is empty. The user must approve the change.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        path: { type: 'string', description: 'Workspace-relative file path' },
+                        search: { type: 'string', description: 'Exact text to replace, unique in the file; empty to create the file' },
+                        replace: { type: 'string', description: 'New text' }
+                    },
+                    required: ['path', 'search', 'replace']
+                }
+            },
+            readOnly: false,
+            describe: args => args.search ? `${args.path}` : `${args.path} (new file)`,
+            run: args => this.editFile(args)
+        });
+    }
+
+    public register(tool: ChatTool) {
+        this.tools.set(tool.definition.name, tool);
+    }
+
+    public get(name: string): ChatTool | undefined {
+        return this.tools.get(name);
+    }
+
+    public getDefinitions(): LLMToolDefinition[] {
+        return [...this.tools.values()].map(tool => tool.definition);
+    }
+
+    private async readFile(args: Record<string, any>): Promise<string> {
+        const uri = await this.resolvePath(args.path);
+        const stat = uri && await vscode.workspace.fs.stat(uri);
+        if (!uri || !stat || stat.type & vscode.FileType.Directory) {
+            return `Error: ${args.path} is not a file in the workspace`;
+        }
+        if (stat.size > MAX_FILE_BYTES) {
+            return `Error: ${args.path} is too large to read`;
+        }
+
+        const document = await vscode.workspace.openTextDocument(uri);
+        const start = args.startLine == null ? 1 : Number(args.startLine);
+        const requestedEnd = args.endLine == null ? document.lineCount : Number(args.endLine);
+        if (!Number.isInteger(start) || !Number.isInteger(requestedEnd) || start < 1 || requestedEnd < start) {
+            return 'Error: startLine and endLine must be whole numbers with 1 <= startLine <= endLine';
+        }
+        const end = Math.min(document.lineCount, requestedEnd, start + MAX_READ_LINES - 1);
+        if (start > document.lineCount) {
+            return `Error: ${args.path} has only ${document.lineCount} lines`;
+        }
+
+        const text = document.getText(new vscode.Range(start - 1, 0, end - 1, document.lineAt(end - 1).text.length));
+        return `${vscode.workspace.asRelativePath(uri)} lines ${start}-${end} of ${document.lineCount}:\n${text}`;
+    }
+
+    private async grepWorkspace(args: Record<string, any>): Promise<string> {
+        const source = args.isRegex ? String(args.pattern) : String(args.pattern).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        let pattern: RegExp;
+        try {
+            pattern = new RegExp(source, args.caseSensitive ? '' : 'i');
+        } catch (error) {
+            return `Error: invalid regular expression: ${error instanceof Error ? error.message : error}`;
+        }
+
+        const uris = await vscode.workspace.findFiles(args.include || '**/*', FILE_EXCLUDE, MAX_GREP_FILES);
+        const results: string[] = [];
+        for (const uri of uris) {
+            const text = await this.readText(uri);
+            if (text === undefined) {
+                continue;
+            }
+
+            const lines = text.split(/\r?\n/);
+            for (let i = 0; i < lines.length && results.length < MAX_GREP_RESULTS; i++) {
+                if (pattern.test(lines[i])) {
+                    results.push(`${vscode.workspace.asRelativePath(uri)}:${i + 1}: ${lines[i].trim().substring(0, MAX_LINE_LENGTH)}`);
+                }
+            }
+            if (results.length >= MAX_GREP_RESULTS) {
+                results.push(`(stopped after ${MAX_GREP_RESULTS} matches)`);
+                break;
+            }
+        }
+        return results.length > 0 ? results.join('\n') : 'No matches';
+    }
+
+    private async listDirectory(args: Record<string, any>): Promise<string> {
+        const folders = vscode.workspace.workspaceFolders || [];
+        if (!args.path || args.path === '.' || args.path === '/') {
+            if (folders.length > 1) {
+                return folders.map(folder => `${folder.name}/`).join('\n');
+            }
+            if (folders.length === 0) {
+                return 'Error: no folder is open';
+            }
+        }
+
+        const uri = args.path && args.path !== '.' && args.path !== '/' ? await this.resolvePath(args.path) : folders[0].uri;
+        if (!uri) {
+            return `Error: ${args.path} is not a directory in the workspace`;
+        }
+
+        let entries: [string, vscode.FileType][];
+        try {
+            entries = await vscode.workspace.fs.readDirectory(uri);
+        } catch {
+            return `Error: ${args.path} is not a directory in the workspace`;
+        }
+
+        const isDirectory = (type: vscode.FileType) => (type & vscode.FileType.Directory) !== 0;
+        return entries
+            .sort(([nameA, typeA], [nameB, typeB]) => Number(isDirectory(typeB)) - Number(isDirectory(typeA)) || nameA.localeCompare(nameB))
+            .map(([name, type]) => isDirectory(type) ? `${name}/` : name)
+            .join('\n') || '(empty directory)';
+    }
+
+    private async getDiagnostics(args: Record<string, any>): Promise<string> {
+        if (!args.path) {
+            return describeProblems(vscode.languages.getDiagnostics());
+        }
+
+        const uri = await this.resolvePath(args.path);
+        if (!uri) {
+            return `Error: ${args.path} is not a file in the workspace`;
+        }
+        return describeProblems([[uri, vscode.languages.getDiagnostics(uri)]]);
+    }
+
+    private async findSymbol(args: Record<string, any>): Promise<string> {
+        const symbols = await vscode.commands.executeCommand<vscode.SymbolInformation[]>(
+            'vscode.executeWorkspaceSymbolProvider',
+            String(args.query || '')
+        ) || [];
+        if (symbols.length === 0) {
+            return 'No symbols found';
+        }
+
+        return symbols.slice(0, MAX_SYMBOLS).map(symbol => {
+            const container = symbol.containerName ? ` in ${symbol.containerName}` : '';
+            const location = `${vscode.workspace.asRelativePath(symbol.location.uri)}:${symbol.location.range.start.line + 1}`;
+            return `${vscode.SymbolKind[symbol.kind]} ${symbol.name}${container} - ${location}`;
+        }).join('\n');
+    }
+
+    // Applied directly: the user approved this exact change in the chat view
+    private async editFile(args: Record<string, any>): Promise<string> {
+        if (typeof args.path !== 'string' || typeof args.replace !== 'string') {
+            return 'Error: path and replace are required';
+        }
+        const existing = await this.resolvePath(args.path);
+        if (!existing && !this.isInsideWorkspace(args.path)) {
+            return `Error: ${args.path} is outside the workspace`;
+        }
+        // An empty search would append to an existing file, not create it as the call was approved
+        if (existing && !args.search) {
+            return `Error: ${args.path} already exists; give the text to replace as search`;
+        }
+
+        const prepared = await this.editApplier.prepare([{ file: args.path, search: String(args.search || ''), replace: args.replace }], false);
+        if (prepared.failures.length > 0) {
+            return `Error: ${prepared.failures[0].reason}`;
+        }
+        return await vscode.workspace.applyEdit(prepared.edit) ? `Edited ${args.path}` : `Error: the edit of ${args.path} was not applied`;
+    }
+
+    // A path inside one of the workspace folders that exists; paths escaping the folders are rejected
+    private async resolvePath(path: unknown): Promise<vscode.Uri | undefined> {
+        if (typeof path !== 'string' || !path) {
+            return undefined;
+        }
+
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            const relative = path.startsWith(`${folder.name}/`) ? path.substring(folder.name.length + 1) : path;
+            for (const candidate of new Set([relative, path])) {
+                const uri = vscode.Uri.joinPath(folder.uri, candidate);
+                if (!this.isInside(folder.uri, uri)) {
+                    continue;
+                }
+                try {
+                    await vscode.workspace.fs.stat(uri);
+                    return uri;
+                } catch {
+                    // Not in this folder
+                }
+            }
+        }
+        return undefined;
+    }
+
+    private isInsideWorkspace(path: string): boolean {
+        const folder = vscode.workspace.workspaceFolders?.[0];
+        return !!folder && this.isInside(folder.uri, vscode.Uri.joinPath(folder.uri, path));
+    }
+
+    private isInside(folder: vscode.Uri, uri: vscode.Uri): boolean {
+        return uri.path === folder.path || uri.path.startsWith(folder.path.replace(/\/$/, '') + '/');
+    }
+
+    // Open documents first so unsaved changes are searched; binary and very large files are skipped
+    private async readText(uri: vscode.Uri): Promise<string | undefined> {
+        const open = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+        if (open) {
+            return open.getText();
+        }
+
+        try {
+            const bytes = await vscode.workspace.fs.readFile(uri);
+            if (bytes.length > MAX_FILE_BYTES || bytes.subarray(0, 1024).includes(0)) {
+                return undefined;
+            }
+            return Buffer.from(bytes).toString('utf8');
+        } catch {
+            return undefined;
+        }
+    }
+}
@@ -0,0 +1,193 @@
+// codeBlockApplier.ts
+import * as vscode from 'vscode';
+import { AttachedItem } from './chatProvider';
+
+// First fenced code block of a model reply, without the fences
+export function extractCodeBlock(text: string): string | undefined {
+    const fenced = text.match(/```[\w+-]*\n([\s\S]*?)\n?```/);
+    return fenced ? fenced[1].replace(/\s+$/, '') : undefined;
+}
+
+// Applies code blocks from chat replies to editors, previewing file changes in a diff editor
+export class CodeBlockApplier implements vscode.TextDocumentContentProvider {
+    public static readonly scheme = 'ai-copilot-proposal';
+
+    private proposals: Map<string, string> = new Map();
+    private proposalCounter = 0;
+    private readonly onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri>();
+    public readonly onDidChange = this.onDidChangeEmitter.event;
+
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.proposals.get(uri.toString()) || '';
+    }
+
+    public async copy(code: string) {
+        await vscode.env.clipboard.writeText(code);
+        vscode.window.showInformationMessage('Code copied to clipboard');
+    }
+
+    public async insertAtCursor(code: string) {
+        const editor = this.getTargetEditor();
+        if (!editor) {
+            vscode.window.showWarningMessage('No active editor to insert code into');
+            return;
+        }
+
+        await editor.edit(editBuilder => {
+            editBuilder.insert(editor.selection.active, code);
+        });
+    }
+
+    public async replaceSelection(code: string) {
+        const editor = this.getTargetEditor();
+        if (!editor) {
+            vscode.window.showWarningMessage('No active editor to replace the selection in');
+            return;
+        }
+
+        await editor.edit(editBuilder => {
+            editBuilder.replace(editor.selection, code);
+        });
+    }
+
+    // Shows the proposed change as a diff and applies it as a single undoable edit when accepted
+    public async applyToFile(code: string, target: AttachedItem) {
+        const uri = await this.resolveWorkspaceFile(target.name);
+        if (!uri) {
+            vscode.window.showErrorMessage(`Cannot find ${target.name} in the workspace`);
+            return;
+        }
+
+        const document = await vscode.workspace.openTextDocument(uri);
+        const range = this.getTargetRange(document, target);
+        if (!range) {
+            vscode.window.showErrorMessage(`The attached code from ${target.name} is no longer in the file; attach the selection again`);
+            return;
+        }
+
+        const lines = `lines ${range.start.line + 1}-${range.end.line + 1}`;
+        await this.proposeEdit(document, range, code, target.type === 'selection' ? `${target.name} (${lines})` : target.name);
+    }
+
+    // Opens a diff of the range replaced by code and applies it when the user accepts. version is the
+    // document version the range was computed for; once the document changes the range is stale and
+    // the edit is refused.
+    public async proposeEdit(
+        document: vscode.TextDocument,
+        range: vscode.Range,
+        code: string,
+        label: string,
+        version: number = document.version
+    ): Promise<boolean> {
+        const uri = document.uri;
+        if (document.version !== version) {
+            vscode.window.showWarningMessage(`${label} changed while the AI was working; run the action again`);
+            return false;
+        }
+
+        const proposedContent = document.getText(new vscode.Range(new vscode.Position(0, 0), range.start))
+            + code
+            + document.getText(new vscode.Range(range.end, document.lineAt(document.lineCount - 1).range.end));
+
+        const proposalUri = this.createProposal(vscode.workspace.asRelativePath(uri), proposedContent);
+        await vscode.commands.executeCommand('vscode.diff', uri, proposalUri, `${label} ↔ AI Proposal`);
+
+        const answer = await vscode.window.showInformationMessage(
+            `Apply the proposed changes to ${label}?`,
+            'Accept',
+            'Discard'
+        );
+
+        this.proposals.delete(proposalUri.toString());
+
+        if (answer !== 'Accept') {
+            return false;
+        }
+        if (document.version !== version) {
+            vscode.window.showWarningMessage(`${label} changed while the proposal was open; the changes were not applied`);
+            return false;
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(uri, range, code);
+        const applied = await vscode.workspace.applyEdit(edit);
+
+        if (applied) {
+            vscode.window.showInformationMessage(`Applied changes to ${label}`);
+        } else {
+            vscode.window.showErrorMessage(`Failed to apply changes to ${label}`);
+        }
+        return applied;
+    }
+
+    public createProposal(name: string, content: string): vscode.Uri {
+        const uri = vscode.Uri.from({
+            scheme: CodeBlockApplier.scheme,
+            path: `/${name}`,
+            query: `proposal=${++this.proposalCounter}`
+        });
+
+        this.proposals.set(uri.toString(), content);
+        this.onDidChangeEmitter.fire(uri);
+        return uri;
+    }
+
+    public discardProposal(uri: vscode.Uri) {
+        this.proposals.delete(uri.toString());
+    }
+
+    // Attachment names are workspace-relative paths, possibly prefixed with the workspace folder name
+    public async resolveWorkspaceFile(name: string): Promise<vscode.Uri | undefined> {
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            const candidates = [name];
+            if (name.startsWith(`${folder.name}/`)) {
+                candidates.push(name.substring(folder.name.length + 1));
+            }
+
+            for (const candidate of candidates) {
+                const uri = vscode.Uri.joinPath(folder.uri, candidate);
+                try {
+                    await vscode.workspace.fs.stat(uri);
+                    return uri;
+                } catch {
+                    // Not in this folder
+                }
+            }
+        }
+
+        return undefined;
+    }
+
+    // The whole lines of an attached selection. The file may have changed since it was attached, so
+    // the selection is looked up by its content: at the recorded lines, else the occurrence nearest to
+    // them. Undefined when the selected code is gone.
+    private getTargetRange(document: vscode.TextDocument, target: AttachedItem): vscode.Range | undefined {
+        if (target.type !== 'selection' || !target.lines) {
+            return new vscode.Range(new vscode.Position(0, 0), document.lineAt(document.lineCount - 1).range.end);
+        }
+
+        const wholeLines = (startLine: number, endLine: number) =>
+            new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length);
+
+        const startLine = target.lines.start - 1;
+        const endLine = target.lines.end - 1;
+        if (endLine < document.lineCount && document.getText(wholeLines(startLine, endLine)).includes(target.content)) {
+            return wholeLines(startLine, endLine);
+        }
+
+        const text = document.getText();
+        let best: vscode.Range | undefined;
+        for (let index = text.indexOf(target.content); index !== -1 && target.content; index = text.indexOf(target.content, index + 1)) {
+            const start = document.positionAt(index);
+            if (!best || Math.abs(start.line - startLine) < Math.abs(best.start.line - startLine)) {
+                best = wholeLines(start.line, document.positionAt(index + target.content.length).line);
+            }
+        }
+        return best;
+    }
+
+    private getTargetEditor(): vscode.TextEditor | undefined {
+        // The chat view has focus when a button is clicked, so fall back to the last visible editor
+        return vscode.window.activeTextEditor || vscode.window.visibleTextEditors[0];
+    }
+}
@@ -0,0 +1,310 @@
+// commitMessageGenerator.ts
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { extractCodeBlock } from './codeBlockApplier';
+import { getGitAPI, GitAPI, GitRepository, runGit } from './git';
+import { createLLMBackend, LLMBackend, LLMError, LLMMessage } from './llmClient';
+import { getActiveProfile, ModelProfile, toBackendSettings } from './profiles';
+import { Tokenizer, tokenizerService } from './tokenizer';
+
+const CONVENTIONAL_SUBJECT = /^(feat|fix|docs|style|refactor|perf|test|build|ci|chore|revert)(\([^)]*\))?!?: /;
+
+// Tokens kept free for the instructions and recent commit subjects around the diff
+const PROMPT_OVERHEAD_TOKENS = 600;
+const MESSAGE_MAX_TOKENS = 400;
+const SUMMARY_MAX_TOKENS = 300;
+// Summaries of summaries, for diffs that are still too large after one round
+const MAX_SUMMARY_ROUNDS = 3;
+// BPE counting is synchronous and slow on large inputs; longer texts are estimated at 4 characters a token
+const MAX_EXACT_COUNT_CHARS = 20000;
+// Generated files whose changes say nothing about the commit, left out of the diff
+const GENERATED_FILE = /(^|\/)(package-lock\.json|npm-shrinkwrap\.json|yarn\.lock|pnpm-lock\.yaml|bun\.lockb|Cargo\.lock|poetry\.lock|Pipfile\.lock|composer\.lock|Gemfile\.lock|go\.sum|[^/]+\.min\.(js|css))$/;
+
+// Where the staged changes come from and where the message goes: a repository of the Git
+// extension, or a folder where git is run directly when the extension is unavailable
+interface CommitTarget {
+    repository?: GitRepository;
+    root: string;
+    gitPath?: string;
+}
+
+// Writes a commit message for the staged changes into the Source Control input box. Diffs larger
+// than the chat model's context are split per file and hunk, summarized chunk by chunk, and the
+// message is written from the summaries.
+export class CommitMessageGenerator {
+    public static readonly command = 'aiCopilot.generateCommitMessage';
+
+    private generating = false;
+
+    // The Source Control title button passes the git SourceControl, whose rootUri identifies the repository
+    public async generate(sourceControl?: { rootUri?: vscode.Uri }) {
+        if (this.generating) {
+            return;
+        }
+
+        const target = await this.pickTarget(sourceControl?.rootUri);
+        if (!target) {
+            return;
+        }
+
+        this.generating = true;
+        try {
+            const diff = target.repository
+                ? await target.repository.diff(true)
+                : await runGit(['diff', '--cached'], target.root, target.gitPath);
+            if (!diff.trim()) {
+                vscode.window.showInformationMessage('There are no staged changes to describe. Stage your changes first.');
+                return;
+            }
+
+            const subjects = await this.getRecentSubjects(target);
+            const message = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: 'Generating commit message...', cancellable: true },
+                async (progress, token) => {
+                    const abortController = new AbortController();
+                    token.onCancellationRequested(() => abortController.abort());
+                    return this.writeMessage(diff, subjects, abortController.signal, text => progress.report({ message: text }));
+                }
+            );
+
+            if (!message) {
+                vscode.window.showWarningMessage('The model returned an empty commit message');
+            } else if (target.repository) {
+                target.repository.inputBox.value = message;
+            } else {
+                await vscode.env.clipboard.writeText(message);
+                vscode.window.showInformationMessage('Commit message copied to the clipboard');
+            }
+        } catch (error) {
+            if (error instanceof LLMError && error.kind === 'cancelled') {
+                return;
+            }
+            vscode.window.showErrorMessage(`Generating the commit message failed: ${error instanceof Error ? error.message : error}`);
+        } finally {
+            this.generating = false;
+        }
+    }
+
+    private async writeMessage(
+        diff: string,
+        subjects: string[],
+        signal: AbortSignal,
+        report: (text: string) => void
+    ): Promise<string> {
+        const profile = getActiveProfile('chat');
+        const backend = createLLMBackend(toBackendSettings(profile));
+        const tokenizer = tokenizerService.getTokenizer(profile.model);
+        const budget = Math.max(1000, profile.contextWindow - Math.max(MESSAGE_MAX_TOKENS, SUMMARY_MAX_TOKENS) - PROMPT_OVERHEAD_TOKENS);
+
+        let changes = this.omitGeneratedChanges(diff);
+        let summarized = false;
+        for (let round = 0; round < MAX_SUMMARY_ROUNDS && this.countTokens(changes, tokenizer) > budget; round++) {
+            const chunks = this.splitIntoChunks(changes, budget, tokenizer);
+            const summaries: string[] = [];
+            for (let index = 0; index < chunks.length; index++) {
+                report(`Summarizing part ${index + 1} of ${chunks.length}`);
+                summaries.push(await this.complete(backend, profile, this.buildSummaryMessages(chunks[index], summarized), SUMMARY_MAX_TOKENS, signal));
+            }
+            changes = summaries.join('\n\n');
+            summarized = true;
+        }
+
+        report('Writing the message');
+        const text = await this.complete(backend, profile, this.buildMessageMessages(this.truncate(changes, budget, tokenizer), summarized, subjects), MESSAGE_MAX_TOKENS, signal);
+        // Some models wrap the message in quotes despite being told not to
+        return (extractCodeBlock(text) ?? text).trim().replace(/^(["'`])([\s\S]*)\1$/, '$2').trim();
+    }
+
+    private async complete(backend: LLMBackend, profile: ModelProfile, messages: LLMMessage[], maxTokens: number, signal: AbortSignal): Promise<string> {
+        const response = await backend.chat(messages, {
+            model: profile.model,
+            temperature: Math.min(profile.temperature, 0.3),
+            maxTokens: Math.min(profile.maxTokens, maxTokens),
+            signal
+        });
+        return response.text;
+    }
+
+    private buildSummaryMessages(chunk: string, isSummary: boolean): LLMMessage[] {
+        return [
+            {
+                role: 'system',
+                content: 'You summarize code changes for someone who will write the commit message. List what changed and, when it is apparent, why, as short bullet points naming the files and symbols involved. Do not invent anything that is not in the input.'
+            },
+            {
+                role: 'user',
+                content: isSummary
+                    ? `Merge these summaries of parts of one commit into a shorter summary:\n\n${chunk}`
+                    : `Summarize this part of a staged diff:\n\n\`\`\`diff\n${chunk}\n\`\`\``
+            }
+        ];
+    }
+
+    private buildMessageMessages(changes: string, summarized: boolean, subjects: string[]): LLMMessage[] {
+        const conventional = this.usesConventionalCommits(subjects);
+        const rules = [
+            'Write a git commit message for the changes below.',
+            conventional
+                ? 'This repository follows Conventional Commits: the subject line must be "type(optional scope): description", with a type such as feat, fix, docs, refactor, perf, test, build, ci or chore, and "!" after the type or scope for breaking changes.'
+                : 'Start with a subject line in the imperative mood, like "Add ..." or "Fix ...".',
+            'Keep the subject line under 72 characters and without a trailing period. If the change needs more explanation, add a blank line and a body wrapped at 72 characters that says what changed and why.',
+            'Reply with the commit message only, without quotes, code fences or commentary.'
+        ];
+        if (subjects.length > 0) {
+            rules.push(`Match the style of the recent commit subjects in this repository:\n${subjects.slice(0, 10).map(subject => `- ${subject}`).join('\n')}`);
+        }
+
+        return [
+            { role: 'system', content: rules.join('\n\n') },
+            {
+                role: 'user',
+                content: summarized
+                    ? `Summary of the staged changes (the full diff is too large to show):\n\n${changes}`
+                    : `Staged diff:\n\n\`\`\`diff\n${changes}\n\`\`\``
+            }
+        ];
+    }
+
+    // Conventional Commits when at least half of the recent subjects follow them
+    private usesConventionalCommits(subjects: string[]): boolean {
+        const conventional = subjects.filter(subject => CONVENTIONAL_SUBJECT.test(subject)).length;
+        return subjects.length > 0 && conventional * 2 >= subjects.length;
+    }
+
+    private async getRecentSubjects(target: CommitTarget): Promise<string[]> {
+        try {
+            const messages = target.repository
+                ? (await target.repository.log({ maxEntries: 20 })).map(commit => commit.message)
+                : (await runGit(['log', '-n', '20', '--format=%s'], target.root, target.gitPath)).split('\n');
+            return messages.map(message => message.split('\n')[0].trim()).filter(subject => subject);
+        } catch {
+            return [];  // No commits yet
+        }
+    }
+
+    // Lock files, minified files and binary patches are reduced to their diff header
+    private omitGeneratedChanges(diff: string): string {
+        return diff.split(/\n(?=diff --git )/).map(file => {
+            const header = file.split('\n', 1)[0];
+            const path = header.match(/ b\/(.+)$/)?.[1] || '';
+            if (GENERATED_FILE.test(path)) {
+                return `${header}\n(changes to a generated file omitted)`;
+            }
+            if (/^GIT binary patch$/m.test(file)) {
+                return `${header}\n(binary file changed)`;
+            }
+            return file;
+        }).join('\n');
+    }
+
+    private countTokens(text: string, tokenizer: Tokenizer): number {
+        return text.length > MAX_EXACT_COUNT_CHARS ? Math.ceil(text.length / 4) : tokenizer.countTokens(text);
+    }
+
+    // Packs the diff into chunks that fit the budget, splitting it per file, then per hunk, then per line
+    private splitIntoChunks(text: string, budget: number, tokenizer: Tokenizer): string[] {
+        const pieces: Array<{ text: string; tokens: number }> = [];
+        const split = (part: string, separators: RegExp[]) => {
+            const tokens = this.countTokens(part, tokenizer);
+            if (tokens <= budget) {
+                pieces.push({ text: part, tokens });
+            } else if (separators.length > 0) {
+                part.split(separators[0]).filter(piece => piece.trim()).forEach(piece => split(piece, separators.slice(1)));
+            } else {
+                const truncated = this.truncate(part, budget, tokenizer);
+                pieces.push({ text: truncated, tokens: this.countTokens(truncated, tokenizer) });
+            }
+        };
+        split(text, [/\n(?=diff --git )/, /\n(?=@@ )/, /\n/]);
+
+        const chunks: string[] = [];
+        let current = '';
+        let currentTokens = 0;
+        for (const { text: piece, tokens } of pieces) {
+            const pieceTokens = tokens + 1;
+            if (current && currentTokens + pieceTokens > budget) {
+                chunks.push(current);
+                current = piece;
+                currentTokens = pieceTokens;
+            } else {
+                current = current ? `${current}\n${piece}` : piece;
+                currentTokens += pieceTokens;
+            }
+        }
+        if (current) {
+            chunks.push(current);
+        }
+        return chunks;
+    }
+
+    private truncate(text: string, budget: number, tokenizer: Tokenizer): string {
+        if (this.countTokens(text, tokenizer) <= budget) {
+            return text;
+        }
+
+        const lines = text.split('\n');
+        const kept: string[] = [];
+        let tokens = 0;
+        for (const line of lines) {
+            tokens += this.countTokens(line + '\n', tokenizer);
+            if (tokens > budget) {
+                // A single line over the budget (minified code) is cut by characters
+                if (kept.length === 0) {
+                    kept.push(line.substring(0, budget));
+                }
+                break;
+            }
+            kept.push(line);
+        }
+        return `${kept.join('\n')}\n... (truncated)`;
+    }
+
+    private async pickTarget(rootUri: vscode.Uri | undefined): Promise<CommitTarget | undefined> {
+        const api = await getGitAPI();
+        if (!api) {
+            const folder = rootUri
+                ? { uri: rootUri }
+                : (vscode.window.activeTextEditor && vscode.workspace.getWorkspaceFolder(vscode.window.activeTextEditor.document.uri))
+                    || vscode.workspace.workspaceFolders?.[0];
+            if (!folder) {
+                vscode.window.showWarningMessage('Open a folder with a git repository to generate a commit message');
+                return undefined;
+            }
+            return { root: folder.uri.fsPath };
+        }
+
+        const repository = await this.pickRepository(api, rootUri);
+        return repository ? { repository, root: repository.rootUri.fsPath, gitPath: api.git.path } : undefined;
+    }
+
+    private async pickRepository(api: GitAPI, rootUri: vscode.Uri | undefined): Promise<GitRepository | undefined> {
+        if (api.repositories.length === 0) {
+            vscode.window.showWarningMessage('No git repository is open');
+            return undefined;
+        }
+
+        const fromButton = rootUri && api.repositories.find(repository => repository.rootUri.toString() === rootUri.toString());
+        if (fromButton) {
+            return fromButton;
+        }
+        if (api.repositories.length === 1) {
+            return api.repositories[0];
+        }
+
+        const editor = vscode.window.activeTextEditor;
+        const fromEditor = editor && api.getRepository(editor.document.uri);
+        if (fromEditor) {
+            return fromEditor;
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            api.repositories.map(repository => ({
+                label: path.basename(repository.rootUri.fsPath),
+                description: repository.rootUri.fsPath,
+                repository
+            })),
+            { placeHolder: 'Select the repository to write a commit message for' }
+        );
+        return picked?.repository;
+    }
+}
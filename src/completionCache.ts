@@ -0,0 +1,103 @@
+// completionCache.ts
+import * as crypto from 'crypto';
+
+export interface CachedCompletion {
+    text: string;            // ghost text inserted at the cursor
+    replacedLength: number;  // characters after the cursor (same line) that the text replaces
+}
+
+interface CacheEntry extends CachedCompletion {
+    fileName: string;
+    prefix: string;
+    suffix: string;
+}
+
+export interface DocumentEdit {
+    rangeOffset: number;
+    rangeLength: number;
+    text: string;
+}
+
+// LRU cache of ghost-text completions keyed on file, prefix and suffix. A lookup whose prefix
+// extends a cached prefix with characters the suggestion already proposed ("typing through"
+// the ghost text) is served the remainder of that suggestion without a model round trip.
+export class CompletionCache {
+    private entries: Map<string, CacheEntry> = new Map();
+
+    constructor(private readonly maxEntries: number = 50) {}
+
+    public get(fileName: string, prefix: string, suffix: string): CachedCompletion | undefined {
+        const key = this.getKey(fileName, prefix, suffix);
+        const exact = this.entries.get(key);
+        if (exact) {
+            this.touch(key, exact);
+            return { text: exact.text, replacedLength: exact.replacedLength };
+        }
+
+        for (const [entryKey, entry] of this.entries) {
+            if (entry.fileName !== fileName || entry.suffix !== suffix || !prefix.startsWith(entry.prefix)) {
+                continue;
+            }
+
+            const typed = prefix.substring(entry.prefix.length);
+            if (typed.length < entry.text.length && entry.text.startsWith(typed)) {
+                this.touch(entryKey, entry);
+                return { text: entry.text.substring(typed.length), replacedLength: entry.replacedLength };
+            }
+        }
+
+        return undefined;
+    }
+
+    public set(fileName: string, prefix: string, suffix: string, completion: CachedCompletion) {
+        const key = this.getKey(fileName, prefix, suffix);
+        this.entries.delete(key);
+        this.entries.set(key, { fileName, prefix, suffix, ...completion });
+
+        while (this.entries.size > this.maxEntries) {
+            const oldestKey = this.entries.keys().next().value;
+            if (oldestKey === undefined) {
+                break;
+            }
+            this.entries.delete(oldestKey);
+        }
+    }
+
+    // Drops entries an edit made stale. Insertions inside the span a suggestion covers are kept,
+    // since they may be the user typing the suggestion out.
+    public invalidate(fileName: string, edits: readonly DocumentEdit[]) {
+        for (const [key, entry] of this.entries) {
+            if (entry.fileName !== fileName) {
+                continue;
+            }
+
+            const isTypeThrough = edits.every(edit =>
+                edit.rangeLength === 0 &&
+                edit.rangeOffset >= entry.prefix.length &&
+                edit.rangeOffset <= entry.prefix.length + entry.text.length
+            );
+
+            if (!isTypeThrough) {
+                this.entries.delete(key);
+            }
+        }
+    }
+
+    public clear() {
+        this.entries.clear();
+    }
+
+    public get size(): number {
+        return this.entries.size;
+    }
+
+    private touch(key: string, entry: CacheEntry) {
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+    }
+
+    private getKey(fileName: string, prefix: string, suffix: string): string {
+        const hash = crypto.createHash('sha1').update(prefix).update('\0').update(suffix).digest('hex');
+        return `${fileName}\0${hash}`;
+    }
+}
@@ -1,12 +1,23 @@
 // contextService.ts
 import * as vscode from 'vscode';
+import { SnippetRetriever } from './snippetRetriever';
+import { ImportedDefinitions, ImportResolver } from './importResolver';
 
+// A line-level hunk: a burst of edits to one region of a file, merged into a single change
 export interface EditHistory {
     timestamp: number;
-    range: vscode.Range;
-    oldText: string;
-    newText: string;
     fileName: string;
+    oldStart: number;     // 1-based line where the hunk starts before the edit
+    oldLines: string[];   // lines replaced (empty for a pure insertion)
+    newStart: number;     // 1-based line where the hunk starts after the edit
+    newLines: string[];   // replacement lines (empty for a pure deletion)
+}
+
+// Edits still being typed: the file text before the burst started and when it was last touched
+interface EditBurst {
+    fileName: string;
+    baseline: string;
+    lastEdit: number;
 }
 
 export interface ViewedSnippet {
@@ -17,6 +28,14 @@ export interface ViewedSnippet {
     language: string;
 }
 
+export interface OutlineSymbol {
+    name: string;
+    kind: string;            // vscode.SymbolKind name, e.g. 'Class' or 'Method'
+    detail?: string;
+    range: vscode.Range;     // full extent of the symbol, including its body
+    children: OutlineSymbol[];
+}
+
 export interface FileContext {
     fullContent: string;
     language: string;
@@ -24,22 +43,50 @@ export interface FileContext {
     functions: string[];
     classes: string[];
     variables: string[];
+    outline: OutlineSymbol[];
+    symbolSource: 'languageServer' | 'regex';
+    enclosingSymbols?: OutlineSymbol[]; // outermost to innermost symbol containing the cursor
+}
+
+export interface DocumentEditEvent {
+    fileName: string;
+    document: vscode.TextDocument;
+    contentChanges: readonly vscode.TextDocumentContentChangeEvent[];
 }
 
 export class ContextService {
-    private editHistory: EditHistory[] = [];
+    private editHistory: Map<string, EditHistory[]> = new Map();
+    private documentSnapshots: Map<string, string> = new Map();
+    private editBursts: Map<string, EditBurst> = new Map();
+    private changeTimes: Map<string, number[]> = new Map();
     private viewedSnippets: ViewedSnippet[] = [];
     private fileContextCache: Map<string, FileContext> = new Map();
-    private readonly maxHistoryItems = 20;
+    private symbolCache: Map<string, { version: number; timestamp: number; outline: Promise<OutlineSymbol[]> }> = new Map();
+    private snippetRetriever = new SnippetRetriever();
+    private importResolver = new ImportResolver();
+    private readonly maxHistoryCharsPerFile = 4000;
+    private readonly maxHistoryFiles = 20;
+    private readonly burstIdleMs = 2000;
+    private readonly burstDistanceLines = 5;
     private readonly maxSnippetItems = 10;
     private readonly cacheTimeout = 5 * 60 * 1000; // 5 minutes
+    private readonly symbolProviderTimeout = 1500;
+    // While typing, the outline of an older version is reused for this long instead of asking the
+    // language server again on every keystroke
+    private readonly symbolRefreshDelay = 1000;
+    private readonly documentEditEmitter = new vscode.EventEmitter<DocumentEditEvent>();
+
+    // Fired after an edit has been recorded, so other caches can invalidate themselves
+    public readonly onDidEditDocument = this.documentEditEmitter.event;
 
     constructor() {
         this.setupEventListeners();
     }
 
     private setupEventListeners() {
-        // Track document changes
+        // Track document changes, diffing against a snapshot of each open document
+        vscode.workspace.textDocuments.forEach(document => this.takeSnapshot(document));
+        vscode.workspace.onDidOpenTextDocument(this.takeSnapshot.bind(this));
         vscode.workspace.onDidChangeTextDocument(this.onDocumentChange.bind(this));
         
         // Track cursor movements and selections
@@ -50,42 +97,150 @@ export class ContextService {
         
         // Clear cache when documents are closed
         vscode.workspace.onDidCloseTextDocument(this.onDocumentClose.bind(this));
+
+        // Imports resolved to files that no longer exist, or that now exist, are resolved again
+        vscode.workspace.onDidCreateFiles(() => this.importResolver.forgetResolved());
+        vscode.workspace.onDidDeleteFiles(() => this.importResolver.forgetResolved());
+        vscode.workspace.onDidRenameFiles(() => this.importResolver.forgetResolved());
     }
 
     // Edit History Management
     public getRecentEditHistory(minutes: number = 5): EditHistory[] {
-        const timeThreshold = Date.now() - (minutes * 60 * 1000);
-        return this.editHistory.filter(edit => edit.timestamp > timeThreshold);
+        return [...this.editHistory.keys(), ...[...this.editBursts.values()].map(burst => burst.fileName)]
+            .filter((fileName, index, fileNames) => fileNames.indexOf(fileName) === index)
+            .flatMap(fileName => this.getEditHistoryForFile(fileName, minutes))
+            .sort((a, b) => a.timestamp - b.timestamp);
     }
 
+    // Hunks of the file from oldest to newest, including the burst that is still being typed
     public getEditHistoryForFile(fileName: string, minutes: number = 5): EditHistory[] {
-        return this.getRecentEditHistory(minutes).filter(edit => edit.fileName === fileName);
+        const timeThreshold = Date.now() - (minutes * 60 * 1000);
+        const hunks = [...(this.editHistory.get(fileName) || [])];
+
+        for (const [key, burst] of this.editBursts) {
+            const current = this.documentSnapshots.get(key);
+            const pending = burst.fileName === fileName && current !== undefined
+                ? this.computeHunk(fileName, burst.baseline, current, burst.lastEdit)
+                : undefined;
+            if (pending) {
+                hunks.push(pending);
+            }
+        }
+
+        return hunks.filter(edit => edit.timestamp > timeThreshold);
+    }
+
+    // Number of individual document changes (keystrokes, pastes) in the last few milliseconds
+    public getRecentChangeCount(fileName: string, milliseconds: number): number {
+        const threshold = Date.now() - milliseconds;
+        return (this.changeTimes.get(fileName) || []).filter(time => time > threshold).length;
+    }
+
+    private takeSnapshot(document: vscode.TextDocument) {
+        if (document.uri.scheme === 'file' || document.uri.scheme === 'untitled') {
+            this.documentSnapshots.set(document.uri.toString(), document.getText());
+        }
     }
 
     private onDocumentChange(event: vscode.TextDocumentChangeEvent) {
         if (event.contentChanges.length === 0) return;
         
+        const key = event.document.uri.toString();
         const fileName = vscode.workspace.asRelativePath(event.document.uri);
-        
-        event.contentChanges.forEach(change => {
-            const edit: EditHistory = {
-                timestamp: Date.now(),
-                range: change.range,
-                oldText: change.text ? '' : event.document.getText(change.range),
-                newText: change.text,
-                fileName: fileName
-            };
-            
-            this.editHistory.push(edit);
-        });
+        const previous = this.documentSnapshots.get(key);
+        const now = Date.now();
+
+        if (previous !== undefined) {
+            this.documentSnapshots.set(key, event.document.getText());
+            this.changeTimes.set(fileName, [...(this.changeTimes.get(fileName) || []), now].slice(-20));
+
+            // A pause or an edit elsewhere in the file closes the current burst as one hunk
+            let burst = this.editBursts.get(key);
+            const changedLine = Math.min(...event.contentChanges.map(change => change.range.start.line));
+            if (burst && (now - burst.lastEdit > this.burstIdleMs || !this.isNearBurst(burst, previous, changedLine))) {
+                this.commitBurst(burst, previous);
+                burst = undefined;
+            }
 
-        // Keep history manageable
-        if (this.editHistory.length > this.maxHistoryItems) {
-            this.editHistory = this.editHistory.slice(-this.maxHistoryItems);
+            if (!burst) {
+                burst = { fileName, baseline: previous, lastEdit: now };
+                this.editBursts.set(key, burst);
+            }
+            burst.lastEdit = now;
         }
 
         // Invalidate cache for this file
         this.fileContextCache.delete(fileName);
+
+        this.documentEditEmitter.fire({
+            fileName: fileName,
+            document: event.document,
+            contentChanges: event.contentChanges
+        });
+    }
+
+    private isNearBurst(burst: EditBurst, current: string, line: number): boolean {
+        const hunk = this.computeHunk(burst.fileName, burst.baseline, current, burst.lastEdit);
+        if (!hunk) {
+            return true; // The burst has no net change yet, e.g. typed and deleted again
+        }
+
+        const start = hunk.newStart - 1 - this.burstDistanceLines;
+        const end = hunk.newStart - 1 + hunk.newLines.length + this.burstDistanceLines;
+        return line >= start && line <= end;
+    }
+
+    private commitBurst(burst: EditBurst, current: string) {
+        const hunk = this.computeHunk(burst.fileName, burst.baseline, current, burst.lastEdit);
+        if (!hunk) {
+            return;
+        }
+
+        // Keep the newest hunks of the file within its size budget
+        const hunks = [...(this.editHistory.get(burst.fileName) || []), hunk];
+        let size = hunks.reduce((total, edit) => total + edit.oldLines.join('\n').length + edit.newLines.join('\n').length, 0);
+        while (hunks.length > 1 && size > this.maxHistoryCharsPerFile) {
+            const dropped = hunks.shift()!;
+            size -= dropped.oldLines.join('\n').length + dropped.newLines.join('\n').length;
+        }
+
+        // Most recently edited files last, so the least recently edited one is dropped first
+        this.editHistory.delete(burst.fileName);
+        this.editHistory.set(burst.fileName, hunks);
+        if (this.editHistory.size > this.maxHistoryFiles) {
+            this.editHistory.delete(this.editHistory.keys().next().value!);
+        }
+    }
+
+    // Single hunk spanning everything between the common leading and trailing lines
+    private computeHunk(fileName: string, before: string, after: string, timestamp: number): EditHistory | undefined {
+        if (before === after) {
+            return undefined;
+        }
+
+        const oldLines = before.split(/\r?\n/);
+        const newLines = after.split(/\r?\n/);
+        let prefix = 0;
+        while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+            prefix++;
+        }
+        let suffix = 0;
+        while (
+            suffix < oldLines.length - prefix &&
+            suffix < newLines.length - prefix &&
+            oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+        ) {
+            suffix++;
+        }
+
+        return {
+            timestamp,
+            fileName,
+            oldStart: prefix + 1,
+            oldLines: oldLines.slice(prefix, oldLines.length - suffix),
+            newStart: prefix + 1,
+            newLines: newLines.slice(prefix, newLines.length - suffix)
+        };
     }
 
     // Viewed Snippets Management
@@ -98,6 +253,21 @@ export class ContextService {
         return this.getRecentViewedSnippets(minutes).filter(snippet => snippet.language === language);
     }
 
+    // Windows of other open editors that look most like the code before the cursor
+    public getNeighborSnippets(document: vscode.TextDocument, position: vscode.Position, maxSnippets: number = 3): ViewedSnippet[] {
+        return this.snippetRetriever.retrieve(document, position, maxSnippets);
+    }
+
+    // Exported signatures of the workspace files the document imports
+    public async getImportedDefinitions(document: vscode.TextDocument): Promise<ImportedDefinitions[]> {
+        try {
+            return await this.importResolver.getImportedDefinitions(document);
+        } catch (error) {
+            console.warn('Failed to resolve imports:', error);
+            return [];
+        }
+    }
+
     private onSelectionChange(event: vscode.TextEditorSelectionChangeEvent) {
         if (!event.textEditor.selection.isEmpty) {
             const document = event.textEditor.document;
@@ -122,39 +292,155 @@ export class ContextService {
     }
 
     // File Context Management
-    public async getFileContext(document: vscode.TextDocument): Promise<FileContext> {
+    // allowStaleSymbols lets inline completions use a slightly outdated outline while the user types;
+    // callers that edit by symbol ranges need the outline of the current version
+    public async getFileContext(document: vscode.TextDocument, position?: vscode.Position, allowStaleSymbols: boolean = false): Promise<FileContext> {
         const fileName = vscode.workspace.asRelativePath(document.uri);
-        const cached = this.fileContextCache.get(fileName);
+        let context = this.fileContextCache.get(fileName);
         
-        if (cached) {
-            return cached;
-        }
+        if (!context) {
+            const symbols = this.getDocumentSymbols(document, allowStaleSymbols);
+            context = this.analyzeFile(document, await symbols.outline);
 
-        const context = await this.analyzeFile(document);
-        this.fileContextCache.set(fileName, context);
-        
-        // Set timeout to clear cache
-        setTimeout(() => {
-            this.fileContextCache.delete(fileName);
-        }, this.cacheTimeout);
+            // Only contexts built from the outline of this version are cached
+            if (symbols.version === document.version) {
+                this.fileContextCache.set(fileName, context);
+
+                // Set timeout to clear cache
+                setTimeout(() => {
+                    this.fileContextCache.delete(fileName);
+                }, this.cacheTimeout);
+            }
+        }
 
-        return context;
+        if (!position) {
+            return context;
+        }
+        return { ...context, enclosingSymbols: this.findEnclosingSymbols(context.outline, position) };
     }
 
-    private async analyzeFile(document: vscode.TextDocument): Promise<FileContext> {
+    private analyzeFile(document: vscode.TextDocument, outline: OutlineSymbol[]): FileContext {
         const content = document.getText();
         const language = document.languageId;
-        
+
+        if (outline.length === 0) {
+            // No language server for this file - fall back to the regex tables
+            return {
+                fullContent: content,
+                language: language,
+                imports: this.extractImports(content, language),
+                functions: this.extractFunctions(content, language),
+                classes: this.extractClasses(content, language),
+                variables: this.extractVariables(content, language),
+                outline: [],
+                symbolSource: 'regex'
+            };
+        }
+
+        const functions: string[] = [];
+        const classes: string[] = [];
+        const variables: string[] = [];
+        const collect = (symbols: OutlineSymbol[], container?: string) => {
+            for (const symbol of symbols) {
+                const qualifiedName = container ? `${container}.${symbol.name}` : symbol.name;
+                if (['Function', 'Method', 'Constructor'].includes(symbol.kind)) {
+                    functions.push(qualifiedName);
+                } else if (['Class', 'Interface', 'Struct', 'Enum'].includes(symbol.kind)) {
+                    classes.push(qualifiedName);
+                } else if (['Variable', 'Constant'].includes(symbol.kind) && !container) {
+                    variables.push(symbol.name);
+                }
+                // Locals of functions are not part of the file's API
+                if (!['Function', 'Method', 'Constructor'].includes(symbol.kind)) {
+                    collect(symbol.children, qualifiedName);
+                }
+            }
+        };
+        collect(outline);
+
         return {
             fullContent: content,
             language: language,
             imports: this.extractImports(content, language),
-            functions: this.extractFunctions(content, language),
-            classes: this.extractClasses(content, language),
-            variables: this.extractVariables(content, language)
+            functions,
+            classes,
+            variables,
+            outline,
+            symbolSource: 'languageServer'
         };
     }
 
+    // Asks the language server for the document outline; empty when none answers in time
+    // The outline of the current version, shared by concurrent callers, or with allowStale a recent
+    // outline of an older version
+    private getDocumentSymbols(document: vscode.TextDocument, allowStale: boolean): { version: number; outline: Promise<OutlineSymbol[]> } {
+        const key = document.uri.toString();
+        const cached = this.symbolCache.get(key);
+        if (cached && (cached.version === document.version || (allowStale && Date.now() - cached.timestamp < this.symbolRefreshDelay))) {
+            return cached;
+        }
+
+        const entry = { version: document.version, timestamp: Date.now(), outline: this.fetchDocumentSymbols(document) };
+        this.symbolCache.set(key, entry);
+        return entry;
+    }
+
+    private async fetchDocumentSymbols(document: vscode.TextDocument): Promise<OutlineSymbol[]> {
+        let timer: NodeJS.Timeout | undefined;
+        try {
+            const symbols = await Promise.race([
+                vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>(
+                    'vscode.executeDocumentSymbolProvider',
+                    document.uri
+                ),
+                new Promise<undefined>(resolve => {
+                    timer = setTimeout(() => resolve(undefined), this.symbolProviderTimeout);
+                })
+            ]);
+            return (symbols || []).map(symbol => this.toOutlineSymbol(symbol));
+        } catch (error) {
+            console.warn('Document symbol provider failed:', error);
+            return [];
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    private toOutlineSymbol(symbol: vscode.DocumentSymbol | vscode.SymbolInformation): OutlineSymbol {
+        // Older providers return flat SymbolInformation without children
+        if (symbol instanceof vscode.SymbolInformation) {
+            return {
+                name: symbol.name,
+                kind: vscode.SymbolKind[symbol.kind],
+                detail: symbol.containerName || undefined,
+                range: symbol.location.range,
+                children: []
+            };
+        }
+
+        return {
+            name: symbol.name,
+            kind: vscode.SymbolKind[symbol.kind],
+            detail: symbol.detail || undefined,
+            range: symbol.range,
+            children: (symbol.children || []).map(child => this.toOutlineSymbol(child))
+        };
+    }
+
+    private findEnclosingSymbols(symbols: OutlineSymbol[], position: vscode.Position): OutlineSymbol[] {
+        // Largest first: flat outlines list a container and its members side by side
+        const span = (symbol: OutlineSymbol) => symbol.range.end.line - symbol.range.start.line;
+        const containing = symbols
+            .filter(symbol => symbol.range.contains(position))
+            .sort((a, b) => span(b) - span(a));
+        if (containing.length === 0) {
+            return [];
+        }
+
+        const innermost = containing[containing.length - 1];
+        return [...containing, ...this.findEnclosingSymbols(innermost.children, position)];
+    }
+
     private extractImports(content: string, language: string): string[] {
         const importPatterns: { [key: string]: RegExp } = {
             'javascript': /(import\s+.*?from\s+['"][^'"]+['"]|require\(['"][^'"]+['"]\))/g,
@@ -174,13 +460,17 @@ export class ContextService {
 
     private extractFunctions(content: string, language: string): string[] {
         const functionPatterns: { [key: string]: RegExp } = {
-            'javascript': /(function\s+\w+|const\s+\w+\s*=\s*\([^)]*\)\s*=>|async\s+function\s+\w+)/g,
-            'typescript': /(function\s+\w+|const\s+\w+\s*:\s*\([^)]*\)\s*=>|async\s+function\s+\w+)/g,
+            'javascript': /(function\s+\w+|const\s+\w+\s*=\s*(async\s*)?\([^)]*\)\s*=>|async\s+function\s+\w+)/g,
+            'typescript': /(function\s+\w+|const\s+\w+\s*(:[^=]+)?=\s*(async\s*)?\([^)]*\)[^=;{]*=>|async\s+function\s+\w+)/g,
             'python': /(def\s+\w+\([^)]*\):)/g,
-            'java': /(public|private|protected)?\s*(static)?\s*\w+\s+\w+\([^)]*\)\s*\{/g,
-            'csharp': /(public|private|protected)?\s*(static)?\s*\w+\s+\w+\([^)]*\)\s*\{/g,
+            // Control-flow keywords look like "type name(...) {" too
+            'java': /(public|private|protected)?\s*(static)?\s*\b(?!(?:if|for|while|switch|catch|return|new|else|do)\b)\w+\s+(?!(?:if|for|while|switch|catch)\b)\w+\([^)]*\)\s*\{/g,
+            'csharp': /(public|private|protected)?\s*(static)?\s*\b(?!(?:if|for|foreach|while|switch|catch|using|lock|return|new|else|do)\b)\w+\s+(?!(?:if|for|foreach|while|switch|catch|using|lock)\b)\w+\([^)]*\)\s*\{/g,
             'ruby': /(def\s+\w+(\(.*\))?)/g,
             'php': /(function\s+\w+\s*\([^)]*\)\s*\{)/g,
+            'go': /(func\s+(\([^)]*\)\s*)?\w+)/g,
+            'rust': /(fn\s+\w+)/g,
+            'kotlin': /(fun\s+[\w.]+)/g,
             'css': /$/g // CSS does not have functions
         };
 
@@ -198,7 +488,10 @@ export class ContextService {
             'csharp': /(class\s+\w+)/g,
             'ruby': /(class\s+\w+)/g,
             'php': /(class\s+\w+)/g,
-            'css': /(class\s+\w+)/g
+            'css': /(class\s+\w+)/g,
+            'go': /(type\s+\w+\s+(struct|interface))/g,
+            'rust': /((struct|enum|trait)\s+\w+)/g,
+            'kotlin': /((class|interface|object)\s+\w+)/g
         };
 
         const pattern = classPatterns[language] || /$/;
@@ -210,11 +503,14 @@ export class ContextService {
         const variablePatterns: { [key: string]: RegExp } = {
             'javascript': /(const|let|var)\s+\w+/g,
             'typescript': /(const|let|var)\s+\w+/g,
-            'python': /(\w+)\s*=/g,
+            'python': /^([A-Za-z_]\w*)\s*(:[^=\n]+)?=(?!=)/gm, // Module-level assignments only
             'java': /(\w+)\s*=/g,
             'csharp': /(\w+)\s*=/g,
             'ruby': /(\w+)\s*=/g,
             'php': /(\$\w+)\s*=/g,
+            'go': /((var|const)\s+\w+|\w+\s*:=)/g,
+            'rust': /((let|const|static)\s+(mut\s+)?\w+)/g,
+            'kotlin': /((val|var)\s+\w+)/g,
             'css': /$/g // CSS does not have variables in the traditional sense
         };
 
@@ -233,18 +529,36 @@ export class ContextService {
     private onDocumentClose(document: vscode.TextDocument) {
         const fileName = vscode.workspace.asRelativePath(document.uri);
         this.fileContextCache.delete(fileName);
+        this.symbolCache.delete(document.uri.toString());
+        this.snippetRetriever.forget(document);
+
+        // The file's history stays, but without a snapshot no further edits can be diffed
+        const key = document.uri.toString();
+        const burst = this.editBursts.get(key);
+        const snapshot = this.documentSnapshots.get(key);
+        if (burst && snapshot !== undefined) {
+            this.commitBurst(burst, snapshot);
+        }
+        this.editBursts.delete(key);
+        this.documentSnapshots.delete(key);
+        this.importResolver.forget(document);
     }
 
     // Utility methods
     public clearCache() {
         this.fileContextCache.clear();
-        this.editHistory = [];
+        this.symbolCache.clear();
+        this.snippetRetriever.clear();
+        this.importResolver.clear();
+        this.editHistory.clear();
+        this.editBursts.clear();
+        this.changeTimes.clear();
         this.viewedSnippets = [];
     }
 
     public getStats() {
         return {
-            editHistoryCount: this.editHistory.length,
+            editHistoryCount: [...this.editHistory.values()].reduce((count, hunks) => count + hunks.length, 0) + this.editBursts.size,
             viewedSnippetsCount: this.viewedSnippets.length,
             cachedFilesCount: this.fileContextCache.size
         };
@@ -0,0 +1,149 @@
+// editorActions.ts
+import * as vscode from 'vscode';
+import { ChatProvider } from './chatProvider';
+import { CodeBlockApplier, extractCodeBlock } from './codeBlockApplier';
+import { ContextService, OutlineSymbol } from './contextService';
+import { CODE_PROMPTS, expandTemplate } from './slashCommands';
+
+export type EditorActionId = 'explain' | 'document' | 'tests' | 'optimize' | 'refactor';
+
+export interface EditorAction {
+    id: EditorActionId;
+    title: string;
+    command: string;
+    appliesEdit: boolean;   // the answer's code block is offered as an edit of the attached code
+    template: string;   // slash command template syntax; {{input}} is left empty
+}
+
+export const EDITOR_ACTIONS: EditorAction[] = [
+    {
+        id: 'explain',
+        title: 'Explain with AI',
+        command: 'aiCopilot.explainCode',
+        appliesEdit: false,
+        template: CODE_PROMPTS.explain
+    },
+    {
+        id: 'document',
+        title: 'Document with AI',
+        command: 'aiCopilot.documentCode',
+        appliesEdit: true,
+        template: CODE_PROMPTS.doc
+    },
+    {
+        id: 'tests',
+        title: 'Generate Tests with AI',
+        command: 'aiCopilot.generateTests',
+        appliesEdit: false,
+        template: CODE_PROMPTS.tests
+    },
+    {
+        id: 'optimize',
+        title: 'Optimize with AI',
+        command: 'aiCopilot.optimizeCode',
+        appliesEdit: false,
+        template: 'Review the attached {{language}} code from {{file}} for performance problems. Explain each optimization you suggest and show the optimized code.'
+    },
+    {
+        id: 'refactor',
+        title: 'Refactor with AI',
+        command: 'aiCopilot.refactorCode',
+        appliesEdit: true,
+        template: 'Refactor the attached {{language}} code from {{file}} to make it more readable and better structured without changing its behavior. Reply with the complete refactored code in a single code block, followed by a short list of the changes.'
+    }
+];
+
+const FUNCTION_KINDS = ['Function', 'Method', 'Constructor'];
+
+// Lightbulb and context menu entries that send the selection or enclosing function to chat with a
+// task-specific prompt; Document and Refactor also offer the answer as an edit of that code
+export class EditorActionProvider implements vscode.CodeActionProvider {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.Refactor.append('aiCopilot')];
+
+    constructor(
+        private readonly contextService: ContextService,
+        private readonly chatProvider: ChatProvider,
+        private readonly codeBlockApplier: CodeBlockApplier
+    ) {}
+
+    public async provideCodeActions(
+        document: vscode.TextDocument,
+        range: vscode.Range | vscode.Selection
+    ): Promise<vscode.CodeAction[]> {
+        // Only offer the actions on a selection or inside a function, not on every cursor position
+        if (range.isEmpty && !(await this.findEnclosingFunction(document, range.start))) {
+            return [];
+        }
+
+        return EDITOR_ACTIONS.map(action => {
+            const codeAction = new vscode.CodeAction(action.title, EditorActionProvider.providedCodeActionKinds[0]);
+            codeAction.command = {
+                command: action.command,
+                title: action.title,
+                arguments: [document.uri, range]
+            };
+            return codeAction;
+        });
+    }
+
+    public async run(id: EditorActionId, uri?: vscode.Uri, range?: vscode.Range) {
+        const action = EDITOR_ACTIONS.find(entry => entry.id === id)!;
+        const editor = vscode.window.activeTextEditor;
+        const document = uri ? await vscode.workspace.openTextDocument(uri) : editor?.document;
+        if (!document) {
+            vscode.window.showWarningMessage('Open a file to use AI Copilot actions');
+            return;
+        }
+
+        if (this.chatProvider.isGenerating) {
+            vscode.window.showWarningMessage('Wait for the current chat answer to finish or stop it first');
+            return;
+        }
+
+        const version = document.version;
+        const target = await this.getTargetRange(document, range ?? (editor?.document === document ? editor.selection : undefined));
+        if (!target) {
+            vscode.window.showWarningMessage('Select some code or place the cursor inside a function');
+            return;
+        }
+
+        const fileName = vscode.workspace.asRelativePath(document.uri);
+        this.chatProvider.addSelectionToChat(fileName, document.getText(target), target.start.line + 1, target.end.line + 1);
+
+        // Show chat panel
+        vscode.commands.executeCommand('setContext', 'aiCopilot.chatVisible', true);
+        vscode.commands.executeCommand('aiCopilotChat.focus');
+
+        const prompt = expandTemplate(action.template, { input: '', language: document.languageId, file: fileName, diagnostics: '' });
+        const answer = await this.chatProvider.sendMessage(prompt);
+        if (!answer || !action.appliesEdit) {
+            return;
+        }
+
+        const code = extractCodeBlock(answer);
+        if (!code) {
+            vscode.window.showWarningMessage('The answer contains no code block to apply');
+            return;
+        }
+        await this.codeBlockApplier.proposeEdit(document, target, code, `${fileName} (lines ${target.start.line + 1}-${target.end.line + 1})`, version);
+    }
+
+    // The selection expanded to whole lines, or else the function around the cursor
+    private async getTargetRange(document: vscode.TextDocument, range: vscode.Range | undefined): Promise<vscode.Range | undefined> {
+        if (range && !range.isEmpty) {
+            const endLine = range.end.character === 0 && range.end.line > range.start.line ? range.end.line - 1 : range.end.line;
+            return new vscode.Range(range.start.line, 0, endLine, document.lineAt(endLine).text.length);
+        }
+
+        const symbol = await this.findEnclosingFunction(document, range?.start ?? new vscode.Position(0, 0));
+        if (!symbol) {
+            return undefined;
+        }
+        return new vscode.Range(symbol.range.start.line, 0, symbol.range.end.line, document.lineAt(symbol.range.end.line).text.length);
+    }
+
+    private async findEnclosingFunction(document: vscode.TextDocument, position: vscode.Position): Promise<OutlineSymbol | undefined> {
+        const fileContext = await this.contextService.getFileContext(document, position);
+        return [...(fileContext.enclosingSymbols || [])].reverse().find(symbol => FUNCTION_KINDS.includes(symbol.kind));
+    }
+}
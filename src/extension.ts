@@ -3,6 +3,17 @@ import * as fs from 'fs'; // TODO: to remove later
 import { ChatProvider } from './chatProvider';
 import { AutoCompleteProvider } from './autoCompleteProvider';
 import { ContextService } from './contextService';
+import { CodeBlockApplier } from './codeBlockApplier';
+import { NextEditController } from './nextEditController';
+import { AIFixProvider } from './aiFixProvider';
+import { EDITOR_ACTIONS, EditorActionProvider } from './editorActions';
+import { SlashCommandRegistry } from './slashCommands';
+import { MentionProvider } from './mentions';
+import { ChatToolRegistry } from './chatTools';
+import { CommitMessageGenerator } from './commitMessageGenerator';
+import { getActiveProfile, showProfilePicker } from './profiles';
+import { showModelPicker } from './modelPicker';
+import { runApiDiagnostics, showEffectiveConfiguration } from './diagnostics';
 import { AILogger } from './logger'; // TODO: to remove later
 
 let chatProvider: ChatProvider | undefined;
@@ -10,8 +21,22 @@ let chatProvider: ChatProvider | undefined;
 export function activate(context: vscode.ExtensionContext) {
     console.log('AI Copilot Chat extension is now active!');
 
+    // Previews and applies code blocks from chat replies
+    const codeBlockApplier = new CodeBlockApplier();
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(CodeBlockApplier.scheme, codeBlockApplier)
+    );
+
+    // Built-in and workspace-defined slash commands for the chat input
+    const slashCommands = new SlashCommandRegistry();
+    context.subscriptions.push(slashCommands);
+
+    // Create a single instance of the context service
+    const contextService = new ContextService();
+
     // Initialize chat provider
-    chatProvider = new ChatProvider(context.extensionUri);
+    const mentionProvider = new MentionProvider(contextService, codeBlockApplier);
+    chatProvider = new ChatProvider(context.extensionUri, context.workspaceState, codeBlockApplier, slashCommands, mentionProvider, new ChatToolRegistry(codeBlockApplier));
 
     // Initialize logger
     const logger = new AILogger(); // TODO: to remove later
@@ -23,11 +48,12 @@ export function activate(context: vscode.ExtensionContext) {
         extensionVersion: context.extension.packageJSON.version
     });
 
-    // Create a single instance of the context service
-    const contextService = new ContextService();
-    
+    // Shows suggested edits that can't be rendered as ghost text
+    const nextEditController = new NextEditController();
+    context.subscriptions.push(nextEditController);
+
     // Create the autocomplete provider with the context service
-    const autoCompleteProvider = new AutoCompleteProvider(contextService);
+    const autoCompleteProvider = new AutoCompleteProvider(contextService, nextEditController);
     
     // Register the inline completion provider
     const completionProvider = vscode.languages.registerInlineCompletionItemProvider(
@@ -35,6 +61,36 @@ export function activate(context: vscode.ExtensionContext) {
         autoCompleteProvider
     );
 
+    // "Fix with AI" quick fixes for errors and warnings
+    const aiFixProvider = new AIFixProvider(contextService, codeBlockApplier);
+    context.subscriptions.push(
+        vscode.languages.registerCodeActionsProvider({ pattern: '**' }, aiFixProvider, {
+            providedCodeActionKinds: AIFixProvider.providedCodeActionKinds
+        }),
+        vscode.commands.registerCommand(AIFixProvider.command, (uri: vscode.Uri, diagnostic: vscode.Diagnostic) =>
+            aiFixProvider.fix(uri, diagnostic)
+        )
+    );
+
+    // Explain / Document / Generate Tests / Optimize / Refactor from the lightbulb and context menu
+    const editorActionProvider = new EditorActionProvider(contextService, chatProvider, codeBlockApplier);
+    context.subscriptions.push(
+        vscode.languages.registerCodeActionsProvider({ pattern: '**' }, editorActionProvider, {
+            providedCodeActionKinds: EditorActionProvider.providedCodeActionKinds
+        }),
+        ...EDITOR_ACTIONS.map(action => vscode.commands.registerCommand(action.command, (uri?: vscode.Uri, range?: vscode.Range) =>
+            editorActionProvider.run(action.id, uri instanceof vscode.Uri ? uri : undefined, range instanceof vscode.Range ? range : undefined)
+        ))
+    );
+
+    // Commit message for the staged changes, from the Source Control title bar
+    const commitMessageGenerator = new CommitMessageGenerator();
+    context.subscriptions.push(
+        vscode.commands.registerCommand(CommitMessageGenerator.command, (sourceControl?: { rootUri?: vscode.Uri }) =>
+            commitMessageGenerator.generate(sourceControl)
+        )
+    );
+
     // Register webview provider
     context.subscriptions.push(
         vscode.window.registerWebviewViewProvider(
@@ -55,9 +111,9 @@ export function activate(context: vscode.ExtensionContext) {
             const completion = await autoCompleteProvider.triggerManualCompletion(editor.document, position);
             
             if (completion) {
-                // Insert the completion at the cursor position
+                // Apply the suggested edit around the cursor position
                 await editor.edit(editBuilder => {
-                    editBuilder.insert(position, completion);
+                    editBuilder.replace(completion.range, completion.text);
                 });
                 
                 vscode.window.showInformationMessage('AI completion applied');
@@ -67,6 +123,48 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    // Commands bound to Tab / Escape while a next edit suggestion is shown
+    const acceptNextEditCommand = vscode.commands.registerCommand('aiCopilot.acceptNextEdit', () => nextEditController.accept());
+    const dismissNextEditCommand = vscode.commands.registerCommand('aiCopilot.dismissNextEdit', () => nextEditController.clear());
+
+    // Command to switch the model profile used for completions or chat
+    const selectProfileCommand = vscode.commands.registerCommand('aiCopilot.selectProfile', () => showProfilePicker());
+
+    // Command to pick a model from the server's model listing
+    const selectModelCommand = vscode.commands.registerCommand('aiCopilot.selectModel', () => showModelPicker());
+
+    // Connection diagnostics report
+    const diagnosticsOutput = vscode.window.createOutputChannel('AI Copilot Diagnostics');
+    const testApiCommand = vscode.commands.registerCommand('aiCopilot.testApi', () => runApiDiagnostics(diagnosticsOutput));
+
+    // Effective configuration dump with secrets redacted
+    const debugConfigCommand = vscode.commands.registerCommand('aiCopilot.debugConfig', () =>
+        showEffectiveConfiguration(context.extension.packageJSON)
+    );
+
+    const clearCacheCommand = vscode.commands.registerCommand('aiCopilot.clearCache', () => {
+        const stats = contextService.getStats();
+        contextService.clearCache();
+        autoCompleteProvider.clearCache();
+        vscode.window.showInformationMessage(
+            `Cleared context cache: ${stats.editHistoryCount} edits, ${stats.viewedSnippetsCount} viewed snippets, ${stats.cachedFilesCount} cached files`
+        );
+    });
+
+    const toggleCompletionsCommand = vscode.commands.registerCommand('aiCopilot.toggleCompletions', async () => {
+        const config = vscode.workspace.getConfiguration('aiCopilot');
+        const enabled = config.get<boolean>('completionsEnabled', true);
+
+        // Flip the value where it is set, so a workspace override isn't shadowed by a user setting
+        const inspected = config.inspect<boolean>('completionsEnabled');
+        const target = inspected?.workspaceValue !== undefined
+            ? vscode.ConfigurationTarget.Workspace
+            : vscode.ConfigurationTarget.Global;
+
+        await config.update('completionsEnabled', !enabled, target);
+        vscode.window.showInformationMessage(`AI code completions ${enabled ? 'disabled' : 'enabled'}`);
+    });
+
     // Command to toggle chat visibility
     const toggleChatCommand = vscode.commands.registerCommand('aiCopilot.toggleChat', () => {
         const config = vscode.workspace.getConfiguration('aiCopilot');
@@ -118,6 +216,30 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    // Command to add the signatures of the active file's workspace imports to chat
+    const addImportsCommand = vscode.commands.registerCommand('aiCopilot.addImportsToChat', async () => {
+        const editor = vscode.window.activeTextEditor;
+        if (editor && chatProvider) {
+            const relativePath = vscode.workspace.asRelativePath(editor.document.uri);
+            const definitions = await contextService.getImportedDefinitions(editor.document);
+
+            if (definitions.length === 0) {
+                vscode.window.showInformationMessage(`No imports of ${relativePath} could be resolved to workspace files`);
+                return;
+            }
+
+            for (const definition of definitions) {
+                chatProvider.addContextToChat(`Definitions from ${definition.fileName}`, definition.signatures);
+            }
+
+            // Show chat panel
+            vscode.commands.executeCommand('setContext', 'aiCopilot.chatVisible', true);
+            vscode.commands.executeCommand('aiCopilotChat.focus');
+
+            vscode.window.showInformationMessage(`Added definitions from ${definitions.length} imported file(s) to chat`);
+        }
+    });
+
     // TODO: to remove later
     // 
     const openLogCommand = vscode.commands.registerCommand('aiCopilot.openLogFile', async () => {
@@ -130,7 +252,8 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
 
-    context.subscriptions.push(toggleChatCommand, addFileCommand, addSelectionCommand, completionProvider, openLogCommand, manualCompleteCommand);
+    context.subscriptions.push(toggleChatCommand, addFileCommand, addSelectionCommand, completionProvider, openLogCommand, manualCompleteCommand, acceptNextEditCommand, dismissNextEditCommand, selectProfileCommand, selectModelCommand);
+    context.subscriptions.push(diagnosticsOutput, testApiCommand, debugConfigCommand, clearCacheCommand, toggleCompletionsCommand, addImportsCommand);
 
     // Set initial context
     vscode.commands.executeCommand('setContext', 'aiCopilot.chatVisible', true);
@@ -150,15 +273,43 @@ export function activate(context: vscode.ExtensionContext) {
         
     };
     
+    // Status bar item showing the completion / chat profiles
+    const profileStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 99);
+    profileStatusBarItem.command = 'aiCopilot.selectProfile';
+
+    const updateProfileStatusBar = () => {
+        const completionProfile = getActiveProfile('completion');
+        const chatProfile = getActiveProfile('chat');
+        profileStatusBarItem.text = `$(server) ${completionProfile.name} / ${chatProfile.name}`;
+        profileStatusBarItem.tooltip = `Completion: ${completionProfile.model} (${completionProfile.name})\nChat: ${chatProfile.model} (${chatProfile.name})\nClick to switch profiles`;
+    };
+    
+    // Status bar item showing the models in use
+    const modelStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 98);
+    modelStatusBarItem.command = 'aiCopilot.selectModel';
+
+    const updateModelStatusBar = () => {
+        const completionModel = getActiveProfile('completion').model;
+        const chatModel = getActiveProfile('chat').model;
+        modelStatusBarItem.text = `$(hubot) ${completionModel === chatModel ? completionModel : `${completionModel} / ${chatModel}`}`;
+        modelStatusBarItem.tooltip = 'Click to select a model served by the AI server';
+    };
+    
     updateStatusBar();
+    updateProfileStatusBar();
+    updateModelStatusBar();
     statusBarItem.show();
-    context.subscriptions.push(statusBarItem);
+    profileStatusBarItem.show();
+    modelStatusBarItem.show();
+    context.subscriptions.push(statusBarItem, profileStatusBarItem, modelStatusBarItem);
 
     // Listen for configuration changes
     context.subscriptions.push(
         vscode.workspace.onDidChangeConfiguration(event => {
             if (event.affectsConfiguration('aiCopilot')) {
                 updateStatusBar();
+                updateProfileStatusBar();
+                updateModelStatusBar();
                 console.log('AI Copilot configuration changed');
             }
         })
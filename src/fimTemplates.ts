@@ -0,0 +1,70 @@
+// fimTemplates.ts
+
+export type FimFamily = 'qwen' | 'deepseek' | 'starcoder' | 'codellama' | 'codestral';
+
+export interface FimTemplate {
+    family: FimFamily;
+    build(prefix: string, suffix: string): string;
+    stop: string[];
+}
+
+// OpenAI-style /v1/completions rejects requests with more stop sequences than this
+export const MAX_OPENAI_STOP_SEQUENCES = 4;
+
+// Fill-in-the-middle prompt formats, one per model family. The most important stop sequences come
+// first, as only the first few are sent to OpenAI-compatible servers.
+const FIM_TEMPLATES: { [family in FimFamily]: FimTemplate } = {
+    qwen: {
+        family: 'qwen',
+        build: (prefix, suffix) => `<|fim_prefix|>${prefix}<|fim_suffix|>${suffix}<|fim_middle|>`,
+        stop: ['<|endoftext|>', '<|fim_prefix|>', '<|fim_suffix|>', '<|fim_middle|>', '<|fim_pad|>', '<|repo_name|>', '<|file_sep|>', '<|im_start|>', '<|im_end|>']
+    },
+    deepseek: {
+        family: 'deepseek',
+        build: (prefix, suffix) => `<｜fim▁begin｜>${prefix}<｜fim▁hole｜>${suffix}<｜fim▁end｜>`,
+        stop: ['<｜end▁of▁sentence｜>', '<｜fim▁begin｜>', '<｜fim▁hole｜>', '<｜fim▁end｜>', '<|EOT|>']
+    },
+    starcoder: {
+        family: 'starcoder',
+        build: (prefix, suffix) => `<fim_prefix>${prefix}<fim_suffix>${suffix}<fim_middle>`,
+        stop: ['<|endoftext|>', '<fim_prefix>', '<fim_suffix>', '<fim_middle>', '<file_sep>', '<repo_name>']
+    },
+    codellama: {
+        family: 'codellama',
+        build: (prefix, suffix) => `<PRE> ${prefix} <SUF>${suffix} <MID>`,
+        stop: ['<EOT>', '<PRE>', '<SUF>', '<MID>', '</s>']
+    },
+    codestral: {
+        family: 'codestral',
+        build: (prefix, suffix) => `[SUFFIX]${suffix}[PREFIX]${prefix}`,
+        stop: ['</s>', '[SUFFIX]', '[PREFIX]', '[MIDDLE]']
+    }
+};
+
+// Guess the model family from its name, e.g. "qwen2.5-coder:7b" or "deepseek-coder-v2-lite"
+export function detectFimFamily(model: string): FimFamily {
+    const name = model.toLowerCase();
+
+    if (name.includes('qwen')) return 'qwen';
+    if (name.includes('deepseek')) return 'deepseek';
+    if (name.includes('codestral')) return 'codestral';
+    if (name.includes('codellama') || name.includes('code-llama')) return 'codellama';
+    return 'starcoder';
+}
+
+export function getFimTemplate(model: string, family: FimFamily | 'auto' = 'auto'): FimTemplate {
+    return FIM_TEMPLATES[family === 'auto' ? detectFimFamily(model) : family];
+}
+
+// Cut the text at the first stop sequence, for stop sequences the server was not given and FIM
+// control tokens the model echoed back
+export function truncateAtStop(text: string, stop: string[]): string {
+    let result = text;
+    for (const token of stop) {
+        const index = result.indexOf(token);
+        if (index !== -1) {
+            result = result.substring(0, index);
+        }
+    }
+    return result;
+}
@@ -0,0 +1,68 @@
+// git.ts
+import * as vscode from 'vscode';
+import { execFile } from 'child_process';
+
+// The parts of the built-in Git extension's API (vscode.git, API version 1) used here
+export interface GitRepository {
+    readonly rootUri: vscode.Uri;
+    readonly inputBox: { value: string };
+    diff(cached?: boolean): Promise<string>;
+    log(options?: { maxEntries?: number }): Promise<Array<{ message: string }>>;
+}
+
+export interface GitAPI {
+    readonly git: { readonly path: string };
+    readonly repositories: GitRepository[];
+    getRepository(uri: vscode.Uri): GitRepository | null;
+}
+
+interface GitExtension {
+    getAPI(version: 1): GitAPI;
+}
+
+// The Git extension's API, or undefined when it is disabled or fails to activate
+export async function getGitAPI(): Promise<GitAPI | undefined> {
+    const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+    if (!extension) {
+        return undefined;
+    }
+
+    try {
+        const gitExtension = extension.isActive ? extension.exports : await extension.activate();
+        return gitExtension.getAPI(1);
+    } catch {
+        return undefined;
+    }
+}
+
+export function runGit(args: string[], cwd: string, gitPath: string = 'git'): Promise<string> {
+    return new Promise((resolve, reject) => {
+        execFile(gitPath, args, { cwd, maxBuffer: 16 * 1024 * 1024 }, (error, stdout, stderr) => {
+            if (error) {
+                reject(new Error(stderr.trim() || error.message));
+            } else {
+                resolve(stdout);
+            }
+        });
+    });
+}
+
+// Staged and unstaged changes against HEAD in every repository of the workspace, as one unified diff.
+// Without the Git extension the workspace folders themselves are tried as repositories.
+export async function getUncommittedDiff(): Promise<string> {
+    const api = await getGitAPI();
+    const roots = api
+        ? api.repositories.map(repository => repository.rootUri.fsPath)
+        : (vscode.workspace.workspaceFolders || []).map(folder => folder.uri.fsPath);
+
+    const diffs: string[] = [];
+    for (const root of roots) {
+        try {
+            diffs.push(await runGit(['diff', 'HEAD'], root, api?.git.path));
+        } catch {
+            // Not a git repository, or one without commits yet
+        }
+    }
+
+    return diffs.filter(diff => diff.trim()).join('\n');
+}
@@ -0,0 +1,629 @@
+// importResolver.ts
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+export interface ImportedDefinitions {
+    specifier: string;   // module as written in the import statement
+    fileName: string;    // workspace-relative path of the resolved file
+    language: string;
+    signatures: string;  // exported declarations with their bodies stripped
+}
+
+interface ImportStatement {
+    specifier: string;
+    names: string[];     // imported symbols; empty when the whole module is used
+}
+
+interface PathAliases {
+    baseUrl?: string;
+    paths: { pattern: string; targets: string[] }[];
+}
+
+const TS_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.js', '.jsx', '.mjs', '.cjs'];
+const TS_LANGUAGES = ['typescript', 'typescriptreact', 'javascript', 'javascriptreact'];
+const TS_DECLARATION = /^export\s+(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(function\*?|class|interface|type|enum|const|let|var|namespace)\s+([A-Za-z_$][\w$]*)/;
+
+const MAX_IMPORTS = 10;
+const MAX_BLOCK_LINES = 40;
+
+// Resolves the imports of a document to workspace files (relative paths, tsconfig/jsconfig path
+// aliases, Python packages and Go module paths) and extracts the exported signatures the document uses
+export class ImportResolver {
+    private resolved: Map<string, { imports: string; files: Promise<{ statement: ImportStatement; uri: vscode.Uri }[]> }> = new Map();
+    private signatures: Map<string, { stamp: string; signatures: string }> = new Map();
+    private aliases: Map<string, Promise<PathAliases | undefined>> = new Map();
+
+    public async getImportedDefinitions(document: vscode.TextDocument): Promise<ImportedDefinitions[]> {
+        const key = document.uri.toString();
+        const text = document.getText();
+        const statements = this.parseImports(document.languageId, text);
+
+        // Keyed on the import statements, so typing elsewhere in the file reuses the resolved files
+        const imports = JSON.stringify(statements);
+        let cached = this.resolved.get(key);
+        if (!cached || cached.imports !== imports) {
+            cached = { imports, files: this.resolveImports(document, statements) };
+            this.resolved.set(key, cached);
+        }
+
+        let files = await cached.files;
+        if (document.languageId === 'go') {
+            files = this.narrowGoImports(files, text);
+        }
+
+        const definitions: ImportedDefinitions[] = [];
+        for (const { statement, uri } of files) {
+            const language = this.languageOf(uri);
+            let signatures: string;
+            try {
+                signatures = await this.getSignatures(uri, language, statement.names);
+            } catch {
+                // Deleted or renamed since the imports were resolved - resolve them again next time
+                this.resolved.delete(key);
+                continue;
+            }
+            if (signatures) {
+                definitions.push({
+                    specifier: statement.specifier,
+                    fileName: vscode.workspace.asRelativePath(uri),
+                    language,
+                    signatures
+                });
+            }
+        }
+        return definitions;
+    }
+
+    public forget(document: vscode.TextDocument) {
+        this.resolved.delete(document.uri.toString());
+        this.signatures.delete(document.uri.toString());
+    }
+
+    // Files were created, deleted or renamed, so imports may resolve differently
+    public forgetResolved() {
+        this.resolved.clear();
+        this.aliases.clear();
+    }
+
+    public clear() {
+        this.resolved.clear();
+        this.signatures.clear();
+        this.aliases.clear();
+    }
+
+    private parseImports(language: string, text: string): ImportStatement[] {
+        if (TS_LANGUAGES.includes(language)) {
+            return this.parseTypeScriptImports(text);
+        } else if (language === 'python') {
+            return this.parsePythonImports(text);
+        } else if (language === 'go') {
+            return this.parseGoImports(text);
+        }
+        return [];
+    }
+
+    private async resolveImports(
+        document: vscode.TextDocument,
+        statements: ImportStatement[]
+    ): Promise<{ statement: ImportStatement; uri: vscode.Uri }[]> {
+        if (document.uri.scheme !== 'file') {
+            return [];
+        }
+
+        const language = document.languageId;
+        const files: { statement: ImportStatement; uri: vscode.Uri }[] = [];
+        const seen = new Set<string>();
+
+        for (const statement of statements.slice(0, MAX_IMPORTS * 2)) {
+            let uris: vscode.Uri[] = [];
+            try {
+                if (language === 'python') {
+                    uris = await this.resolvePythonModule(document.uri, statement);
+                } else if (language === 'go') {
+                    uris = await this.resolveGoPackage(document.uri, statement.specifier);
+                } else {
+                    const uri = await this.resolveTypeScriptModule(document.uri, statement.specifier);
+                    uris = uri ? [uri] : [];
+                }
+            } catch (error) {
+                console.warn(`Failed to resolve import ${statement.specifier}:`, error);
+            }
+
+            for (const uri of uris) {
+                if (!seen.has(uri.toString()) && uri.toString() !== document.uri.toString()) {
+                    seen.add(uri.toString());
+                    files.push({ statement, uri });
+                }
+            }
+            if (files.length >= MAX_IMPORTS) {
+                break;
+            }
+        }
+
+        return files;
+    }
+
+    // Go imports the whole package - narrow it to the identifiers this file actually references.
+    // Packages with none referenced yet (a just-added import) are left out rather than included whole.
+    private narrowGoImports(
+        files: { statement: ImportStatement; uri: vscode.Uri }[],
+        text: string
+    ): { statement: ImportStatement; uri: vscode.Uri }[] {
+        const narrowed: { statement: ImportStatement; uri: vscode.Uri }[] = [];
+        for (const file of files) {
+            const alias = file.statement.names[0] || file.statement.specifier.split('/').pop() || '';
+            const used = new Set<string>();
+            for (const match of text.matchAll(new RegExp(`\\b${alias}\\.([A-Z]\\w*)`, 'g'))) {
+                used.add(match[1]);
+            }
+            if (used.size > 0) {
+                narrowed.push({ statement: { specifier: file.statement.specifier, names: [...used] }, uri: file.uri });
+            }
+        }
+        return narrowed;
+    }
+
+    // Import parsing
+
+    private parseTypeScriptImports(text: string): ImportStatement[] {
+        const statements: ImportStatement[] = [];
+
+        for (const match of text.matchAll(/import\s+(?:type\s+)?([\s\S]*?)\s+from\s+['"]([^'"]+)['"]/g)) {
+            const clause = match[1];
+            const names: string[] = [];
+            const named = clause.match(/\{([^}]*)\}/);
+            if (named) {
+                for (const part of named[1].split(',')) {
+                    const name = part.trim().replace(/^type\s+/, '').split(/\s+as\s+/)[0];
+                    if (name) {
+                        names.push(name);
+                    }
+                }
+            }
+            if (/^[A-Za-z_$][\w$]*\s*(,|$)/.test(clause.trim())) {
+                names.push('default');
+            }
+            // A namespace import uses the whole module
+            statements.push({ specifier: match[2], names: /\*\s+as\s+/.test(clause) ? [] : names });
+        }
+
+        for (const match of text.matchAll(/(?:require\(|import\()\s*['"]([^'"]+)['"]\s*\)/g)) {
+            statements.push({ specifier: match[1], names: [] });
+        }
+
+        return statements;
+    }
+
+    private parsePythonImports(text: string): ImportStatement[] {
+        const statements: ImportStatement[] = [];
+
+        for (const match of text.matchAll(/^\s*from\s+(\.*[\w.]*)\s+import\s+(\([^)]*\)|[^\n]+)/gm)) {
+            const names = match[2]
+                .replace(/[()]/g, '')
+                .split(',')
+                .map(name => name.trim().split(/\s+as\s+/)[0])
+                .filter(name => name && name !== '*');
+            statements.push({ specifier: match[1], names });
+        }
+
+        for (const match of text.matchAll(/^\s*import\s+([\w.]+(?:\s+as\s+\w+)?(?:\s*,\s*[\w.]+(?:\s+as\s+\w+)?)*)/gm)) {
+            for (const part of match[1].split(',')) {
+                statements.push({ specifier: part.trim().split(/\s+as\s+/)[0], names: [] });
+            }
+        }
+
+        return statements;
+    }
+
+    private parseGoImports(text: string): ImportStatement[] {
+        const statements: ImportStatement[] = [];
+        const addSpec = (spec: string) => {
+            const match = spec.trim().match(/^(?:([\w.]+)\s+)?"([^"]+)"/);
+            if (match && match[1] !== '_' && match[1] !== '.') {
+                statements.push({ specifier: match[2], names: match[1] ? [match[1]] : [] });
+            }
+        };
+
+        for (const match of text.matchAll(/^import\s*\(([\s\S]*?)\)/gm)) {
+            match[1].split('\n').forEach(addSpec);
+        }
+        for (const match of text.matchAll(/^import\s+((?:[\w.]+\s+)?"[^"]+")/gm)) {
+            addSpec(match[1]);
+        }
+
+        return statements;
+    }
+
+    // Module resolution
+
+    private async resolveTypeScriptModule(from: vscode.Uri, specifier: string): Promise<vscode.Uri | undefined> {
+        if (specifier.startsWith('.')) {
+            return this.resolveTypeScriptFile(path.resolve(path.dirname(from.fsPath), specifier));
+        }
+
+        const aliases = await this.getPathAliases(from);
+        if (!aliases) {
+            return undefined;
+        }
+
+        for (const { pattern, targets } of aliases.paths) {
+            const star = pattern.indexOf('*');
+            const prefix = star >= 0 ? pattern.substring(0, star) : pattern;
+            const suffix = star >= 0 ? pattern.substring(star + 1) : '';
+            const matches = star >= 0
+                ? specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= prefix.length + suffix.length
+                : specifier === pattern;
+            if (!matches) {
+                continue;
+            }
+
+            const wildcard = star >= 0 ? specifier.substring(prefix.length, specifier.length - suffix.length) : '';
+            for (const target of targets) {
+                const uri = await this.resolveTypeScriptFile(path.resolve(aliases.baseUrl || '', target.replace('*', wildcard)));
+                if (uri) {
+                    return uri;
+                }
+            }
+        }
+
+        // Non-relative imports are also looked up under baseUrl
+        return aliases.baseUrl ? this.resolveTypeScriptFile(path.resolve(aliases.baseUrl, specifier)) : undefined;
+    }
+
+    private async resolveTypeScriptFile(base: string): Promise<vscode.Uri | undefined> {
+        // ESM-style imports name the emitted .js file of a .ts source
+        const withoutJs = base.replace(/\.(m|c)?js$/, '');
+        const candidates = [
+            base,
+            ...TS_EXTENSIONS.map(extension => withoutJs + extension),
+            ...TS_EXTENSIONS.map(extension => path.join(base, 'index' + extension))
+        ];
+
+        for (const candidate of candidates) {
+            if (TS_EXTENSIONS.some(extension => candidate.endsWith(extension)) && await this.isFile(candidate)) {
+                return vscode.Uri.file(candidate);
+            }
+        }
+        return undefined;
+    }
+
+    // baseUrl and paths from the nearest tsconfig.json or jsconfig.json
+    private getPathAliases(from: vscode.Uri): Promise<PathAliases | undefined> {
+        const directory = path.dirname(from.fsPath);
+        let aliases = this.aliases.get(directory);
+        if (!aliases) {
+            aliases = this.loadPathAliases(from);
+            this.aliases.set(directory, aliases);
+        }
+        return aliases;
+    }
+
+    private async loadPathAliases(from: vscode.Uri): Promise<PathAliases | undefined> {
+        const configFile = await this.findUp(from, ['tsconfig.json', 'jsconfig.json']);
+        if (!configFile) {
+            return undefined;
+        }
+
+        const config = this.parseJsonWithComments(await this.readText(vscode.Uri.file(configFile)));
+        const options = config?.compilerOptions || {};
+        const configDir = path.dirname(configFile);
+        const paths = options.paths || {};
+        if (!options.baseUrl && Object.keys(paths).length === 0) {
+            return undefined;
+        }
+
+        return {
+            baseUrl: path.resolve(configDir, options.baseUrl || '.'),
+            paths: Object.entries(paths).map(([pattern, targets]) => ({ pattern, targets: targets as string[] }))
+        };
+    }
+
+    private async resolvePythonModule(from: vscode.Uri, statement: ImportStatement): Promise<vscode.Uri[]> {
+        const dots = statement.specifier.match(/^\.*/)![0].length;
+        const modulePath = statement.specifier.substring(dots).split('.').filter(part => part).join(path.sep);
+
+        let roots: string[];
+        if (dots > 0) {
+            let directory = path.dirname(from.fsPath);
+            for (let i = 1; i < dots; i++) {
+                directory = path.dirname(directory);
+            }
+            roots = [directory];
+        } else {
+            const folder = vscode.workspace.getWorkspaceFolder(from);
+            if (!folder) {
+                return [];
+            }
+            roots = [folder.uri.fsPath, path.join(folder.uri.fsPath, 'src')];
+        }
+
+        for (const root of roots) {
+            const base = path.join(root, modulePath);
+            const moduleFile = await this.firstFile([base + '.py', path.join(base, '__init__.py')]);
+
+            // `from package import module` names submodules rather than symbols
+            const submodules: vscode.Uri[] = [];
+            for (const name of statement.names) {
+                const submodule = await this.firstFile([path.join(base, name + '.py')]);
+                if (submodule) {
+                    submodules.push(submodule);
+                }
+            }
+
+            if (moduleFile || submodules.length > 0) {
+                return moduleFile ? [moduleFile, ...submodules] : submodules;
+            }
+        }
+        return [];
+    }
+
+    private async resolveGoPackage(from: vscode.Uri, specifier: string): Promise<vscode.Uri[]> {
+        const goMod = await this.findUp(from, ['go.mod']);
+        if (!goMod) {
+            return [];
+        }
+
+        const moduleName = (await this.readText(vscode.Uri.file(goMod))).match(/^module\s+(\S+)/m)?.[1];
+        if (!moduleName || (specifier !== moduleName && !specifier.startsWith(moduleName + '/'))) {
+            return [];
+        }
+
+        const directory = path.join(path.dirname(goMod), specifier.substring(moduleName.length));
+        const entries = await vscode.workspace.fs.readDirectory(vscode.Uri.file(directory));
+        return entries
+            .filter(([name, type]) => type === vscode.FileType.File && name.endsWith('.go') && !name.endsWith('_test.go'))
+            .map(([name]) => vscode.Uri.file(path.join(directory, name)));
+    }
+
+    // Signature extraction
+
+    private async getSignatures(uri: vscode.Uri, language: string, names: string[]): Promise<string> {
+        const open = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+        const stamp = `${open ? `v${open.version}` : `m${(await vscode.workspace.fs.stat(uri)).mtime}`}|${names.join(',')}`;
+        const cached = this.signatures.get(uri.toString());
+        if (cached && cached.stamp === stamp) {
+            return cached.signatures;
+        }
+
+        const text = open ? open.getText() : await this.readText(uri);
+        let lines: string[];
+        if (language === 'python') {
+            lines = this.extractPythonSignatures(text, names);
+        } else if (language === 'go') {
+            lines = this.extractGoSignatures(text, names);
+        } else {
+            lines = this.extractTypeScriptSignatures(text, names);
+        }
+
+        const signatures = lines.join('\n');
+        this.signatures.set(uri.toString(), { stamp, signatures });
+        return signatures;
+    }
+
+    private extractTypeScriptSignatures(text: string, names: string[]): string[] {
+        const lines = text.split(/\r?\n/);
+        const output: string[] = [];
+        let depth = 0;
+
+        for (let i = 0; i < lines.length; i++) {
+            const match = depth === 0 ? lines[i].match(TS_DECLARATION) : null;
+            const exportedName = match && /^export\s+default\b/.test(lines[i]) ? 'default' : match?.[2];
+            const end = match ? this.findStatementEnd(lines, i) : i;
+
+            if (match && (names.length === 0 || names.includes(exportedName!) || names.includes(match[2]))) {
+                output.push(this.summarizeTypeScriptDeclaration(lines.slice(i, end + 1), match[1]));
+            }
+
+            for (let j = i; j <= end; j++) {
+                depth = Math.max(0, depth + this.braceDelta(lines[j]));
+            }
+            i = end;
+        }
+
+        return output;
+    }
+
+    private summarizeTypeScriptDeclaration(lines: string[], kind: string): string {
+        const text = lines.join('\n');
+
+        switch (kind) {
+            case 'interface':
+            case 'type':
+            case 'enum':
+                return this.limitBlock(lines);
+            case 'function':
+            case 'function*': {
+                const body = this.findBodyStart(text);
+                return body >= 0 ? text.substring(0, body).trimEnd() + ';' : text;
+            }
+            case 'class': {
+                const header = lines[0].replace(/\s*\{.*$/, '');
+                const members: string[] = [];
+                let depth = 0;
+                for (const line of lines.slice(0, -1)) {
+                    const trimmed = line.trim();
+                    if (depth === 1 && trimmed && !/^(private|protected|#|\/\/|\/\*|\*)/.test(trimmed)) {
+                        members.push('    ' + trimmed.replace(/\s*\{\s*\}?\s*$/, ';'));
+                    }
+                    depth += this.braceDelta(line);
+                }
+                return [header + ' {', ...members.slice(0, MAX_BLOCK_LINES), '}'].join('\n');
+            }
+            default:
+                return lines.length === 1 ? lines[0] : lines[0].trimEnd() + ' ...';
+        }
+    }
+
+    private extractPythonSignatures(text: string, names: string[]): string[] {
+        const lines = text.split(/\r?\n/);
+        const output: string[] = [];
+
+        for (let i = 0; i < lines.length; i++) {
+            const match = lines[i].match(/^(?:async\s+)?(def|class)\s+(\w+)/);
+            if (!match || match[2].startsWith('_') || (names.length > 0 && !names.includes(match[2]))) {
+                continue;
+            }
+
+            output.push(this.readPythonHeader(lines, i));
+            if (match[1] === 'class') {
+                for (let j = i + 1; j < lines.length && (!lines[j].trim() || /^\s/.test(lines[j])); j++) {
+                    const method = lines[j].match(/^(\s+)(?:async\s+)?def\s+(\w+)/);
+                    if (method && (!method[2].startsWith('_') || method[2] === '__init__')) {
+                        output.push(this.readPythonHeader(lines, j));
+                    }
+                }
+            }
+        }
+
+        return output;
+    }
+
+    // A def/class header may spread its parameters over several lines up to the final colon
+    private readPythonHeader(lines: string[], start: number): string {
+        const header: string[] = [];
+        for (let i = start; i < lines.length && header.length < 10; i++) {
+            header.push(lines[i]);
+            if (/:\s*(#.*)?$/.test(lines[i])) {
+                break;
+            }
+        }
+        return header.join('\n') + ' ...';
+    }
+
+    private extractGoSignatures(text: string, names: string[]): string[] {
+        const lines = text.split(/\r?\n/);
+        const output: string[] = [];
+
+        for (let i = 0; i < lines.length; i++) {
+            const func = lines[i].match(/^func\s+(?:\([^)]*\)\s*)?([A-Z]\w*)/);
+            const type = lines[i].match(/^type\s+([A-Z]\w*)/);
+            const name = func?.[1] || type?.[1];
+            if (!name || (names.length > 0 && !names.includes(name))) {
+                continue;
+            }
+
+            const end = this.findStatementEnd(lines, i);
+            if (func) {
+                const declaration = lines.slice(i, end + 1).join('\n');
+                const body = this.findBodyStart(declaration);
+                output.push(body >= 0 ? declaration.substring(0, body).trimEnd() : lines[i]);
+            } else {
+                output.push(this.limitBlock(lines.slice(i, end + 1)));
+            }
+            i = end;
+        }
+
+        return output;
+    }
+
+    // Helpers
+
+    // Last line of a declaration: where its braces close again, or the line ending the statement
+    private findStatementEnd(lines: string[], start: number): number {
+        let depth = 0;
+        let opened = false;
+        for (let i = start; i < lines.length && i - start < 500; i++) {
+            depth += this.braceDelta(lines[i]);
+            opened = opened || depth > 0;
+            // Without braces, a statement continues while its line ends in an operator or an open list
+            if (opened ? depth <= 0 : (/;\s*$/.test(lines[i]) || !/[=(<:,|&]\s*$/.test(lines[i]))) {
+                return i;
+            }
+        }
+        return Math.min(lines.length - 1, start + 500);
+    }
+
+    // Position of the "{" that opens a function body: the first one after the parameter list closes
+    private findBodyStart(text: string): number {
+        let parens = 0;
+        let seenParams = false;
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+            if (char === '(') {
+                parens++;
+                seenParams = true;
+            } else if (char === ')') {
+                parens--;
+            } else if (char === '{' && parens === 0 && seenParams) {
+                return i;
+            }
+        }
+        return -1;
+    }
+
+    private braceDelta(line: string): number {
+        const code = line
+            .replace(/(["'`])(?:\\.|(?!\1).)*\1/g, '')
+            .replace(/\/\/.*$/, '');
+        return (code.match(/\{/g) || []).length - (code.match(/\}/g) || []).length;
+    }
+
+    private limitBlock(lines: string[]): string {
+        if (lines.length <= MAX_BLOCK_LINES) {
+            return lines.join('\n');
+        }
+        return [...lines.slice(0, MAX_BLOCK_LINES - 1), '    // ...', lines[lines.length - 1]].join('\n');
+    }
+
+    private languageOf(uri: vscode.Uri): string {
+        const extension = path.extname(uri.fsPath);
+        if (extension === '.py') {
+            return 'python';
+        }
+        if (extension === '.go') {
+            return 'go';
+        }
+        return /\.(m|c)?jsx?$/.test(uri.fsPath) ? 'javascript' : 'typescript';
+    }
+
+    private parseJsonWithComments(text: string): any {
+        const stripped = text
+            .replace(/("(?:\\.|[^"\\])*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (_, string) => string || '')
+            .replace(/,(\s*[}\]])/g, '$1');
+        try {
+            return JSON.parse(stripped);
+        } catch {
+            return undefined;
+        }
+    }
+
+    // Walks up from the file's directory to its workspace folder looking for one of the given files
+    private async findUp(from: vscode.Uri, fileNames: string[]): Promise<string | undefined> {
+        const folder = vscode.workspace.getWorkspaceFolder(from);
+        const root = folder ? folder.uri.fsPath : path.parse(from.fsPath).root;
+        let directory = path.dirname(from.fsPath);
+
+        while (true) {
+            const found = await this.firstFile(fileNames.map(fileName => path.join(directory, fileName)));
+            if (found) {
+                return found.fsPath;
+            }
+            const parent = path.dirname(directory);
+            if (parent === directory || !directory.startsWith(root) || directory === root) {
+                return undefined;
+            }
+            directory = parent;
+        }
+    }
+
+    private async firstFile(candidates: string[]): Promise<vscode.Uri | undefined> {
+        for (const candidate of candidates) {
+            if (await this.isFile(candidate)) {
+                return vscode.Uri.file(candidate);
+            }
+        }
+        return undefined;
+    }
+
+    private async isFile(fsPath: string): Promise<boolean> {
+        try {
+            return (await vscode.workspace.fs.stat(vscode.Uri.file(fsPath))).type === vscode.FileType.File;
+        } catch {
+            return false;
+        }
+    }
+
+    private async readText(uri: vscode.Uri): Promise<string> {
+        return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+    }
+}
@@ -0,0 +1,649 @@
+// llmClient.ts
+import * as vscode from 'vscode';
+import axios, { AxiosRequestConfig } from 'axios';
+import { StringDecoder } from 'string_decoder';
+
+export type BackendType = 'openai' | 'ollama' | 'llamacpp';
+
+export interface LLMMessage {
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    content: string;
+    toolCalls?: LLMToolCall[];  // assistant messages that called tools
+    toolCallId?: string;        // tool messages: the call they answer
+}
+
+// A function the model may call; parameters is a JSON schema
+export interface LLMToolDefinition {
+    name: string;
+    description: string;
+    parameters: object;
+}
+
+export interface LLMToolCall {
+    id: string;
+    name: string;
+    arguments: string;          // JSON text, as produced by the model
+}
+
+export interface LLMRequestOptions {
+    model: string;
+    temperature?: number;
+    maxTokens?: number;
+    stop?: string[];
+    timeout?: number;
+    signal?: AbortSignal;
+    n?: number;          // number of candidates, only honoured when the backend supports it
+    logprobs?: boolean;  // ask for token log-probabilities where supported
+    tools?: LLMToolDefinition[];  // only sent by backends with native tool support
+    toolChoice?: 'auto' | 'none'; // 'none' keeps the tools declared but forbids calling them (OpenAI only)
+}
+
+export type FinishReason = 'stop' | 'length' | 'toolCalls' | 'unknown';
+
+export interface LLMUsage {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+}
+
+export interface LLMChoice {
+    text: string;
+    finishReason: FinishReason;
+    avgLogprob?: number;
+}
+
+export interface LLMResponse {
+    text: string;
+    finishReason: FinishReason;
+    usage?: LLMUsage;
+    choices: LLMChoice[];
+    toolCalls?: LLMToolCall[];
+}
+
+export interface LLMModelInfo {
+    id: string;
+    contextLength?: number;
+}
+
+export interface BackendSettings {
+    type: BackendType;
+    serverUrl: string;
+    apiKey: string;
+}
+
+export type LLMErrorKind = 'cancelled' | 'timeout' | 'network' | 'auth' | 'notFound' | 'server' | 'invalidResponse';
+
+// Normalized error so callers don't need to know about axios or the server flavour
+export class LLMError extends Error {
+    constructor(
+        message: string,
+        public readonly kind: LLMErrorKind,
+        public readonly status?: number
+    ) {
+        super(message);
+        this.name = 'LLMError';
+    }
+}
+
+export interface LLMBackend {
+    readonly type: BackendType;
+    readonly supportsMultipleChoices: boolean;
+    readonly supportsTools: boolean;
+    chat(messages: LLMMessage[], options: LLMRequestOptions): Promise<LLMResponse>;
+    streamChat(messages: LLMMessage[], options: LLMRequestOptions, onDelta: (delta: string) => void): Promise<LLMResponse>;
+    complete(prompt: string, options: LLMRequestOptions): Promise<LLMResponse>;
+    listModels(timeout?: number): Promise<LLMModelInfo[]>;
+}
+
+abstract class BaseBackend implements LLMBackend {
+    abstract readonly type: BackendType;
+    readonly supportsMultipleChoices: boolean = false;
+    readonly supportsTools: boolean = false;
+
+    constructor(protected readonly settings: BackendSettings) {}
+
+    abstract chat(messages: LLMMessage[], options: LLMRequestOptions): Promise<LLMResponse>;
+    abstract streamChat(messages: LLMMessage[], options: LLMRequestOptions, onDelta: (delta: string) => void): Promise<LLMResponse>;
+    abstract complete(prompt: string, options: LLMRequestOptions): Promise<LLMResponse>;
+
+    // OpenAI-style /v1/models listing, also served by llama.cpp and LM Studio
+    async listModels(timeout: number = 5000): Promise<LLMModelInfo[]> {
+        const data = await this.get('/v1/models', timeout);
+        const models: any[] = Array.isArray(data?.data) ? data.data : [];
+
+        return models
+            .filter(model => model && model.id)
+            .map(model => ({
+                id: model.id,
+                contextLength: model.context_length || model.max_context_length || model.meta?.n_ctx_train || undefined
+            }));
+    }
+
+    protected get baseUrl(): string {
+        return this.settings.serverUrl.replace(/\/+$/, '');
+    }
+
+    protected getHeaders(): Record<string, string> {
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json'
+        };
+
+        if (this.settings.apiKey) {
+            headers['Authorization'] = `Bearer ${this.settings.apiKey}`;
+        }
+
+        return headers;
+    }
+
+    protected async post(path: string, body: any, options: LLMRequestOptions, stream: boolean = false): Promise<any> {
+        const requestConfig: AxiosRequestConfig = {
+            headers: this.getHeaders(),
+            signal: options.signal,
+            timeout: options.timeout
+        };
+
+        if (stream) {
+            requestConfig.responseType = 'stream';
+        }
+
+        try {
+            const response = await axios.post(`${this.baseUrl}${path}`, body, requestConfig);
+            return response.data;
+        } catch (error) {
+            throw toLLMError(error, options.signal);
+        }
+    }
+
+    protected async get(path: string, timeout: number): Promise<any> {
+        try {
+            const response = await axios.get(`${this.baseUrl}${path}`, {
+                headers: this.getHeaders(),
+                timeout
+            });
+            return response.data;
+        } catch (error) {
+            throw toLLMError(error);
+        }
+    }
+
+    // Reads a streamed response body line by line, stopping early when onLine returns true
+    protected async readLines(stream: any, options: LLMRequestOptions, onLine: (line: string) => boolean | void): Promise<void> {
+        // One decoder for the whole stream keeps multi-byte characters split across chunks intact
+        const decoder = new StringDecoder('utf8');
+        let buffer = '';
+
+        try {
+            for await (const chunk of stream) {
+                buffer += typeof chunk === 'string' ? chunk : decoder.write(chunk);
+                const lines = buffer.split('\n');
+                buffer = lines.pop() || '';
+
+                for (const line of lines) {
+                    const trimmed = line.trim();
+                    if (trimmed && onLine(trimmed)) {
+                        return;
+                    }
+                }
+            }
+
+            buffer += decoder.end();
+            if (buffer.trim()) {
+                onLine(buffer.trim());
+            }
+        } catch (error) {
+            throw toLLMError(error, options.signal);
+        }
+    }
+
+    protected parseJson(data: string): any {
+        try {
+            return JSON.parse(data);
+        } catch (error) {
+            console.warn('Failed to parse stream chunk:', data);
+            return undefined;
+        }
+    }
+}
+
+// OpenAI-compatible servers: LM Studio, vLLM, Ollama's /v1 shim, OpenAI itself
+class OpenAIBackend extends BaseBackend {
+    readonly type = 'openai';
+    readonly supportsMultipleChoices = true;
+    readonly supportsTools = true;
+
+    async chat(messages: LLMMessage[], options: LLMRequestOptions): Promise<LLMResponse> {
+        const data = await this.post('/v1/chat/completions', this.buildBody({
+            messages: this.toApiMessages(messages),
+            logprobs: options.logprobs || undefined
+        }, options), options);
+
+        const response = this.toResponse(data, choice => ({
+            text: choice.message?.content || '',
+            finishReason: normalizeFinishReason(choice.finish_reason),
+            avgLogprob: averageLogprob(choice.logprobs?.content?.map((token: any) => token.logprob))
+        }));
+        const toolCalls: any[] = data.choices[0]?.message?.tool_calls || [];
+        if (toolCalls.length > 0) {
+            response.toolCalls = toolCalls.map((call, index) => ({
+                id: call.id || `call_${index}`,
+                name: call.function?.name || '',
+                arguments: call.function?.arguments || '{}'
+            }));
+        }
+        return response;
+    }
+
+    async streamChat(messages: LLMMessage[], options: LLMRequestOptions, onDelta: (delta: string) => void): Promise<LLMResponse> {
+        const stream = await this.post('/v1/chat/completions', this.buildBody({ messages: this.toApiMessages(messages), stream: true }, options), options, true);
+
+        // Server-sent events: "data: {...}" lines ending with "data: [DONE]"
+        let text = '';
+        let finishReason: FinishReason = 'unknown';
+        let usage: LLMUsage | undefined;
+        // Tool calls arrive in fragments keyed by index: the id and name first, then pieces of the arguments
+        const toolCalls: LLMToolCall[] = [];
+
+        await this.readLines(stream, options, line => {
+            if (!line.startsWith('data:')) {
+                return;
+            }
+
+            const data = line.substring(5).trim();
+            if (data === '[DONE]') {
+                return true;
+            }
+
+            const parsed = this.parseJson(data);
+            const choice = parsed?.choices?.[0];
+            const delta = choice?.delta?.content;
+            if (delta) {
+                text += delta;
+                onDelta(delta);
+            }
+            for (const fragment of choice?.delta?.tool_calls || []) {
+                const index = typeof fragment.index === 'number' ? fragment.index : toolCalls.length;
+                const call = toolCalls[index] || (toolCalls[index] = { id: `call_${index}`, name: '', arguments: '' });
+                call.id = fragment.id || call.id;
+                call.name += fragment.function?.name || '';
+                call.arguments += fragment.function?.arguments || '';
+            }
+            if (choice?.finish_reason) {
+                finishReason = normalizeFinishReason(choice.finish_reason);
+            }
+            if (parsed?.usage) {
+                usage = this.parseUsage(parsed.usage);
+            }
+        });
+
+        const calls = toolCalls.filter(call => call && call.name);
+        return { text, finishReason, usage, choices: [{ text, finishReason }], toolCalls: calls.length > 0 ? calls : undefined };
+    }
+
+    async complete(prompt: string, options: LLMRequestOptions): Promise<LLMResponse> {
+        const data = await this.post('/v1/completions', this.buildBody({
+            prompt,
+            logprobs: options.logprobs ? 1 : undefined
+        }, options), options);
+
+        return this.toResponse(data, choice => ({
+            text: choice.text || '',
+            finishReason: normalizeFinishReason(choice.finish_reason),
+            avgLogprob: averageLogprob(choice.logprobs?.token_logprobs)
+        }));
+    }
+
+    private buildBody(payload: any, options: LLMRequestOptions): any {
+        return {
+            model: options.model,
+            ...payload,
+            temperature: options.temperature,
+            max_tokens: options.maxTokens,
+            stop: options.stop && options.stop.length > 0 ? options.stop : undefined,
+            n: options.n && options.n > 1 ? options.n : undefined,
+            tools: toApiTools(options.tools),
+            tool_choice: options.tools && options.tools.length > 0 ? options.toolChoice : undefined
+        };
+    }
+
+    private toApiMessages(messages: LLMMessage[]): any[] {
+        return messages.map(msg => {
+            if (msg.role === 'tool') {
+                return { role: 'tool', tool_call_id: msg.toolCallId, content: msg.content };
+            }
+            if (msg.toolCalls && msg.toolCalls.length > 0) {
+                return {
+                    role: msg.role,
+                    content: msg.content || null,
+                    tool_calls: msg.toolCalls.map(call => ({
+                        id: call.id,
+                        type: 'function',
+                        function: { name: call.name, arguments: call.arguments }
+                    }))
+                };
+            }
+            return { role: msg.role, content: msg.content };
+        });
+    }
+
+    private toResponse(data: any, parseChoice: (choice: any) => LLMChoice): LLMResponse {
+        const rawChoices: any[] = Array.isArray(data?.choices) ? data.choices : [];
+        if (rawChoices.length === 0) {
+            throw new LLMError('Server returned no choices', 'invalidResponse');
+        }
+
+        // Servers may return choices out of order when n > 1
+        const choices = [...rawChoices]
+            .sort((a, b) => (a.index || 0) - (b.index || 0))
+            .map(parseChoice);
+
+        return {
+            text: choices[0].text,
+            finishReason: choices[0].finishReason,
+            usage: this.parseUsage(data.usage),
+            choices
+        };
+    }
+
+    private parseUsage(usage: any): LLMUsage | undefined {
+        if (!usage) {
+            return undefined;
+        }
+
+        const promptTokens = usage.prompt_tokens || 0;
+        const completionTokens = usage.completion_tokens || 0;
+        return {
+            promptTokens,
+            completionTokens,
+            totalTokens: usage.total_tokens || promptTokens + completionTokens
+        };
+    }
+}
+
+// Ollama native API: /api/chat and /api/generate, streamed as newline-delimited JSON
+class OllamaBackend extends BaseBackend {
+    readonly type = 'ollama';
+    readonly supportsTools = true;
+
+    async chat(messages: LLMMessage[], options: LLMRequestOptions): Promise<LLMResponse> {
+        const data = await this.post('/api/chat', this.buildBody({ messages: this.toApiMessages(messages), stream: false }, options), options);
+        return this.toResponse(data?.message?.content || '', data, this.parseToolCalls(data?.message?.tool_calls, 0));
+    }
+
+    async streamChat(messages: LLMMessage[], options: LLMRequestOptions, onDelta: (delta: string) => void): Promise<LLMResponse> {
+        const stream = await this.post('/api/chat', this.buildBody({ messages: this.toApiMessages(messages), stream: true }, options), options, true);
+
+        let text = '';
+        let last: any;
+        const toolCalls: LLMToolCall[] = [];
+
+        await this.readLines(stream, options, line => {
+            const parsed = this.parseJson(line);
+            if (!parsed) {
+                return;
+            }
+            if (parsed.error) {
+                throw new LLMError(parsed.error, 'server');
+            }
+
+            const delta = parsed.message?.content;
+            if (delta) {
+                text += delta;
+                onDelta(delta);
+            }
+            // Ollama sends each tool call whole, with the arguments as an object
+            toolCalls.push(...this.parseToolCalls(parsed.message?.tool_calls, toolCalls.length));
+
+            if (parsed.done) {
+                last = parsed;
+                return true;
+            }
+        });
+
+        return this.toResponse(text, last, toolCalls);
+    }
+
+    async listModels(timeout: number = 5000): Promise<LLMModelInfo[]> {
+        const data = await this.get('/api/tags', timeout);
+        const models: any[] = Array.isArray(data?.models) ? data.models : [];
+
+        return models
+            .filter(model => model && (model.name || model.model))
+            .map(model => ({ id: model.name || model.model }));
+    }
+
+    async complete(prompt: string, options: LLMRequestOptions): Promise<LLMResponse> {
+        // raw mode skips the model's chat template so FIM-style prompts reach the model untouched
+        const data = await this.post('/api/generate', this.buildBody({ prompt, raw: true, stream: false }, options), options);
+        return this.toResponse(data?.response || '', data);
+    }
+
+    private buildBody(payload: any, options: LLMRequestOptions): any {
+        return {
+            model: options.model,
+            ...payload,
+            tools: toApiTools(options.tools),
+            options: {
+                temperature: options.temperature,
+                num_predict: options.maxTokens,
+                stop: options.stop && options.stop.length > 0 ? options.stop : undefined
+            }
+        };
+    }
+
+    private toResponse(text: string, data: any, toolCalls: LLMToolCall[] = []): LLMResponse {
+        const promptTokens = data?.prompt_eval_count || 0;
+        const completionTokens = data?.eval_count || 0;
+        const finishReason = toolCalls.length > 0 ? 'toolCalls' : normalizeFinishReason(data?.done_reason);
+
+        return {
+            text,
+            finishReason,
+            usage: data ? { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens } : undefined,
+            choices: [{ text, finishReason }],
+            toolCalls: toolCalls.length > 0 ? toolCalls : undefined
+        };
+    }
+
+    private parseToolCalls(calls: any[] | undefined, firstIndex: number): LLMToolCall[] {
+        return (calls || [])
+            .filter(call => call?.function?.name)
+            .map((call, index) => ({
+                id: `call_${firstIndex + index}`,
+                name: call.function.name,
+                arguments: typeof call.function.arguments === 'string' ? call.function.arguments : JSON.stringify(call.function.arguments || {})
+            }));
+    }
+
+    // Ollama takes tool call arguments as objects and doesn't use call ids
+    private toApiMessages(messages: LLMMessage[]): any[] {
+        return messages.map(msg => {
+            if (msg.toolCalls && msg.toolCalls.length > 0) {
+                return {
+                    role: msg.role,
+                    content: msg.content,
+                    tool_calls: msg.toolCalls.map(call => ({
+                        function: { name: call.name, arguments: parseToolArguments(call.arguments) }
+                    }))
+                };
+            }
+            return { role: msg.role, content: msg.content };
+        });
+    }
+}
+
+// llama.cpp server native /completion endpoint
+class LlamaCppBackend extends BaseBackend {
+    readonly type = 'llamacpp';
+
+    async chat(messages: LLMMessage[], options: LLMRequestOptions): Promise<LLMResponse> {
+        return this.complete(this.renderMessages(messages), options);
+    }
+
+    async streamChat(messages: LLMMessage[], options: LLMRequestOptions, onDelta: (delta: string) => void): Promise<LLMResponse> {
+        const prompt = this.renderMessages(messages);
+        const stream = await this.post('/completion', this.buildBody(prompt, options, true), options, true);
+
+        let text = '';
+        let last: any;
+
+        await this.readLines(stream, options, line => {
+            if (!line.startsWith('data:')) {
+                return;
+            }
+
+            const parsed = this.parseJson(line.substring(5).trim());
+            if (!parsed) {
+                return;
+            }
+
+            if (parsed.content) {
+                text += parsed.content;
+                onDelta(parsed.content);
+            }
+
+            if (parsed.stop) {
+                last = parsed;
+                return true;
+            }
+        });
+
+        return this.toResponse(text, last);
+    }
+
+    async complete(prompt: string, options: LLMRequestOptions): Promise<LLMResponse> {
+        const data = await this.post('/completion', this.buildBody(prompt, options, false), options);
+        return this.toResponse(data?.content || '', data);
+    }
+
+    private buildBody(prompt: string, options: LLMRequestOptions, stream: boolean): any {
+        return {
+            prompt,
+            stream,
+            temperature: options.temperature,
+            n_predict: options.maxTokens,
+            stop: options.stop && options.stop.length > 0 ? options.stop : undefined,
+            cache_prompt: true
+        };
+    }
+
+    // /completion takes a plain prompt, so flatten the conversation into a role-prefixed transcript
+    private renderMessages(messages: LLMMessage[]): string {
+        const roleNames = { system: 'System', user: 'User', assistant: 'Assistant', tool: 'Tool' };
+        const transcript = messages.map(msg => `${roleNames[msg.role]}: ${msg.content}`).join('\n\n');
+        return `${transcript}\n\nAssistant:`;
+    }
+
+    private toResponse(text: string, data: any): LLMResponse {
+        const promptTokens = data?.tokens_evaluated || 0;
+        const completionTokens = data?.tokens_predicted || 0;
+
+        let finishReason: FinishReason = 'unknown';
+        if (data?.stopped_limit) {
+            finishReason = 'length';
+        } else if (data?.stopped_eos || data?.stopped_word) {
+            finishReason = 'stop';
+        }
+
+        return {
+            text,
+            finishReason,
+            usage: data ? { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens } : undefined,
+            choices: [{ text, finishReason }]
+        };
+    }
+}
+
+function normalizeFinishReason(reason: string | undefined | null): FinishReason {
+    switch (reason) {
+        case 'stop':
+        case 'eos':
+        case 'stop_sequence':
+            return 'stop';
+        case 'length':
+        case 'max_tokens':
+            return 'length';
+        case 'tool_calls':
+        case 'function_call':
+            return 'toolCalls';
+        default:
+            return 'unknown';
+    }
+}
+
+function toApiTools(tools: LLMToolDefinition[] | undefined): any[] | undefined {
+    if (!tools || tools.length === 0) {
+        return undefined;
+    }
+    return tools.map(tool => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+    }));
+}
+
+// Tool call arguments as an object; malformed JSON from the model becomes an empty object
+export function parseToolArguments(text: string): Record<string, any> {
+    try {
+        const parsed = JSON.parse(text || '{}');
+        return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch {
+        return {};
+    }
+}
+
+function averageLogprob(logprobs: Array<number | null> | undefined): number | undefined {
+    const values = (logprobs || []).filter((value): value is number => typeof value === 'number');
+    if (values.length === 0) {
+        return undefined;
+    }
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function toLLMError(error: unknown, signal?: AbortSignal): LLMError {
+    if (error instanceof LLMError) {
+        return error;
+    }
+
+    if (axios.isCancel(error) || signal?.aborted) {
+        return new LLMError('Request cancelled', 'cancelled');
+    }
+
+    if (axios.isAxiosError(error)) {
+        const status = error.response?.status;
+
+        if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+            return new LLMError('Request timed out', 'timeout');
+        }
+        if (status === 401 || status === 403) {
+            return new LLMError(`Authentication failed (HTTP ${status}) - check aiCopilot.apiKey`, 'auth', status);
+        }
+        if (status === 404) {
+            return new LLMError(`Endpoint or model not found (HTTP 404): ${error.config?.url}`, 'notFound', status);
+        }
+        if (status) {
+            return new LLMError(`Server error (HTTP ${status}): ${error.message}`, 'server', status);
+        }
+        return new LLMError(`Cannot reach AI server: ${error.message}`, 'network');
+    }
+
+    return new LLMError(error instanceof Error ? error.message : String(error), 'invalidResponse');
+}
+
+export function getBackendSettings(): BackendSettings {
+    const config = vscode.workspace.getConfiguration('aiCopilot');
+    return {
+        type: config.get<BackendType>('backend') || 'openai',
+        serverUrl: config.get<string>('serverUrl') || 'http://localhost:1234',
+        apiKey: config.get<string>('apiKey') || ''
+    };
+}
+
+export function createLLMBackend(settings: BackendSettings = getBackendSettings()): LLMBackend {
+    switch (settings.type) {
+        case 'ollama':
+            return new OllamaBackend(settings);
+        case 'llamacpp':
+            return new LlamaCppBackend(settings);
+        default:
+            return new OpenAIBackend(settings);
+    }
+}
@@ -0,0 +1,259 @@
+// mentions.ts
+import * as vscode from 'vscode';
+import { AttachedItem } from './chatProvider';
+import { CodeBlockApplier } from './codeBlockApplier';
+import { ContextService } from './contextService';
+import { describeProblems } from './problems';
+import { getUncommittedDiff } from './git';
+
+export type MentionKind = 'file' | 'symbol' | 'problems' | 'diff' | 'open';
+
+export interface MentionSuggestion {
+    label: string;
+    description: string;
+    insert: string;     // text that replaces the "@..." being typed
+}
+
+export interface ResolvedMentions {
+    attachments: AttachedItem[];
+    unresolved: string[];
+}
+
+export const MENTION_KINDS: Array<{ kind: MentionKind; description: string; takesArgument: boolean }> = [
+    { kind: 'file', description: 'Attach a workspace file', takesArgument: true },
+    { kind: 'symbol', description: 'Attach a class, function or other symbol', takesArgument: true },
+    { kind: 'problems', description: 'Attach the current errors and warnings', takesArgument: false },
+    { kind: 'diff', description: 'Attach the uncommitted git changes', takesArgument: false },
+    { kind: 'open', description: 'Attach all open editors', takesArgument: false }
+];
+
+// "@file:src/a.ts", "@file:"path with spaces.ts"", "@symbol:Name", "@problems", "@diff", "@open"
+// Trailing punctuation is not part of an unquoted argument: "look at @file:a.ts, please"
+const MENTION_PATTERN = /(?:^|\s)@(file|symbol|problems|diff|open)\b(?::(?:"([^"]+)"|([^\s"]+?)(?=[.,;:!?)]*(?:\s|$))))?/g;
+
+const MAX_SUGGESTIONS = 20;
+const MAX_OPEN_EDITORS = 10;
+const FILE_LIST_TTL_MS = 30000;
+
+// Dependency, build and VCS folders left out of workspace file searches
+export const FILE_EXCLUDE = '**/{node_modules,.git,out,dist,build,.venv,__pycache__}/**';
+
+// Autocomplete for @-mentions in the chat input, and their resolution into attachments when a
+// message is sent
+export class MentionProvider {
+    private fileList?: { timestamp: number; files: string[] };
+
+    constructor(
+        private readonly contextService: ContextService,
+        private readonly codeBlockApplier: CodeBlockApplier
+    ) {}
+
+    public async getSuggestions(kind: MentionKind, query: string): Promise<MentionSuggestion[]> {
+        if (kind === 'file') {
+            const files = await this.getWorkspaceFiles();
+            return files
+                .map(file => ({ file, score: this.fuzzyScore(query, file) }))
+                .filter(entry => entry.score > 0)
+                .sort((a, b) => b.score - a.score || a.file.length - b.file.length)
+                .slice(0, MAX_SUGGESTIONS)
+                .map(({ file }) => ({
+                    label: file.substring(file.lastIndexOf('/') + 1),
+                    description: file,
+                    insert: `@file:${this.quote(file)} `
+                }));
+        }
+
+        if (kind === 'symbol' && query) {
+            const symbols = await vscode.commands.executeCommand<vscode.SymbolInformation[]>(
+                'vscode.executeWorkspaceSymbolProvider',
+                query
+            ) || [];
+            return symbols.slice(0, MAX_SUGGESTIONS).map(symbol => ({
+                label: symbol.name,
+                description: `${vscode.SymbolKind[symbol.kind]} · ${vscode.workspace.asRelativePath(symbol.location.uri)}`,
+                insert: `@symbol:${this.quote(symbol.name)} `
+            }));
+        }
+
+        return [];
+    }
+
+    // Mentions that cannot be resolved (missing or binary files, unknown symbols, failing providers)
+    // are reported, not attached
+    public async resolve(text: string): Promise<ResolvedMentions> {
+        const attachments: AttachedItem[] = [];
+        const unresolved: string[] = [];
+
+        for (const match of text.matchAll(MENTION_PATTERN)) {
+            const kind = match[1] as MentionKind;
+            const argument = match[2] || match[3] || '';
+            let resolved: AttachedItem[];
+            try {
+                resolved = await this.resolveMention(kind, argument);
+            } catch (error) {
+                console.warn(`Failed to resolve ${match[0].trim()}:`, error);
+                resolved = [];
+            }
+            if (resolved.length === 0) {
+                unresolved.push(match[0].trim());
+            }
+
+            for (const item of resolved) {
+                if (!attachments.some(existing => existing.type === item.type && existing.name === item.name && existing.lines?.start === item.lines?.start)) {
+                    attachments.push(item);
+                }
+            }
+        }
+
+        return { attachments, unresolved };
+    }
+
+    private async resolveMention(kind: MentionKind, argument: string): Promise<AttachedItem[]> {
+        switch (kind) {
+            case 'file':
+                return this.resolveFile(argument);
+            case 'symbol':
+                return this.resolveSymbol(argument);
+            case 'problems':
+                return this.resolveProblems();
+            case 'diff':
+                return this.resolveDiff();
+            case 'open':
+                return this.resolveOpenEditors();
+        }
+    }
+
+    private async resolveFile(name: string): Promise<AttachedItem[]> {
+        if (!name) {
+            return [];
+        }
+
+        const uri = await this.codeBlockApplier.resolveWorkspaceFile(name);
+        if (!uri) {
+            return [];
+        }
+
+        const document = await vscode.workspace.openTextDocument(uri);
+        return [{ type: 'file', name: vscode.workspace.asRelativePath(uri), content: document.getText() }];
+    }
+
+    // The whole declaration of the best matching workspace symbol, attached like a selection
+    private async resolveSymbol(name: string): Promise<AttachedItem[]> {
+        if (!name) {
+            return [];
+        }
+
+        const symbols = await vscode.commands.executeCommand<vscode.SymbolInformation[]>(
+            'vscode.executeWorkspaceSymbolProvider',
+            name
+        ) || [];
+        const symbol = symbols.find(candidate => candidate.name === name)
+            || symbols.find(candidate => candidate.name.toLowerCase() === name.toLowerCase());
+        if (!symbol) {
+            return [];
+        }
+
+        const document = await vscode.workspace.openTextDocument(symbol.location.uri);
+        // Workspace symbols may only cover the name, so take the range from the document outline
+        const fileContext = await this.contextService.getFileContext(document, symbol.location.range.start);
+        const declaration = [...(fileContext.enclosingSymbols || [])].reverse().find(entry => entry.name === symbol.name);
+        const range = declaration ? declaration.range : symbol.location.range;
+
+        const startLine = range.start.line;
+        const endLine = range.end.line;
+        return [{
+            type: 'selection',
+            name: vscode.workspace.asRelativePath(document.uri),
+            content: document.getText(new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length)),
+            lines: { start: startLine + 1, end: endLine + 1 }
+        }];
+    }
+
+    private resolveProblems(): AttachedItem[] {
+        return [{
+            type: 'context',
+            name: 'Problems',
+            content: describeProblems(vscode.languages.getDiagnostics())
+        }];
+    }
+
+    private async resolveDiff(): Promise<AttachedItem[]> {
+        const diff = await getUncommittedDiff();
+        return [{
+            type: 'context',
+            name: 'Uncommitted changes',
+            content: diff || 'There are no uncommitted changes.'
+        }];
+    }
+
+    private async resolveOpenEditors(): Promise<AttachedItem[]> {
+        const attachments: AttachedItem[] = [];
+        for (const group of vscode.window.tabGroups.all) {
+            for (const tab of group.tabs) {
+                if (!(tab.input instanceof vscode.TabInputText) || tab.input.uri.scheme !== 'file') {
+                    continue;
+                }
+
+                const name = vscode.workspace.asRelativePath(tab.input.uri);
+                if (attachments.length < MAX_OPEN_EDITORS && !attachments.some(item => item.name === name)) {
+                    try {
+                        const document = await vscode.workspace.openTextDocument(tab.input.uri);
+                        attachments.push({ type: 'file', name, content: document.getText() });
+                    } catch {
+                        // Binary files can't be opened as text - the other editors are still attached
+                    }
+                }
+            }
+        }
+        return attachments;
+    }
+
+    // Workspace-relative paths, cached briefly so typing a query doesn't search the disk every keystroke
+    private async getWorkspaceFiles(): Promise<string[]> {
+        if (this.fileList && Date.now() - this.fileList.timestamp < FILE_LIST_TTL_MS) {
+            return this.fileList.files;
+        }
+
+        const uris = await vscode.workspace.findFiles('**/*', FILE_EXCLUDE, 5000);
+        const files = uris.map(uri => vscode.workspace.asRelativePath(uri)).sort();
+        this.fileList = { timestamp: Date.now(), files };
+        return files;
+    }
+
+    // Subsequence match: every query character must appear in order. Consecutive characters, word
+    // starts and matches in the file name score higher.
+    private fuzzyScore(query: string, path: string): number {
+        if (!query) {
+            return 1;
+        }
+
+        const lowerQuery = query.toLowerCase();
+        const lowerPath = path.toLowerCase();
+        const nameStart = path.lastIndexOf('/') + 1;
+
+        let score = 1;
+        let previous = -2;
+        let position = 0;
+        for (const char of lowerQuery) {
+            const index = lowerPath.indexOf(char, position);
+            if (index === -1) {
+                return 0;
+            }
+
+            score += index === previous + 1 ? 5 : 1;
+            if (index === 0 || /[\/\\._-]/.test(path[index - 1])) {
+                score += 3;
+            }
+            if (index >= nameStart) {
+                score += 2;
+            }
+            previous = index;
+            position = index + 1;
+        }
+        return score;
+    }
+
+    private quote(value: string): string {
+        return /\s/.test(value) ? `"${value}"` : value;
+    }
+}
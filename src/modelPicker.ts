@@ -0,0 +1,130 @@
+// modelPicker.ts
+import * as vscode from 'vscode';
+import { createLLMBackend, LLMModelInfo } from './llmClient';
+import { getActiveProfile, getProfiles, ModelProfile, toBackendSettings } from './profiles';
+
+type ModelItem = vscode.QuickPickItem & { modelId?: string; manual?: boolean };
+
+// Lets the user pick a model from the server's /v1/models (or Ollama /api/tags) listing
+export async function showModelPicker() {
+    const config = vscode.workspace.getConfiguration('aiCopilot');
+    const hasProfiles = (config.get<any[]>('profiles') || []).length > 0;
+
+    const profile = hasProfiles ? await pickProfile() : getActiveProfile('completion');
+    if (!profile) {
+        return;
+    }
+
+    let models: LLMModelInfo[] = [];
+    try {
+        models = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Window, title: `Fetching models from ${profile.serverUrl}` },
+            () => createLLMBackend(toBackendSettings(profile)).listModels()
+        );
+    } catch (error) {
+        vscode.window.showWarningMessage(
+            `Could not list models from ${profile.serverUrl}: ${error instanceof Error ? error.message : error}`
+        );
+    }
+
+    const items: ModelItem[] = models.map(model => ({
+        label: `${model.id === profile.model ? '$(check) ' : ''}${model.id}`,
+        description: model.contextLength ? `${model.contextLength.toLocaleString()} tokens context` : undefined,
+        modelId: model.id
+    }));
+    items.push({ label: '$(edit) Enter model name...', manual: true });
+
+    const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: `Select the model for ${hasProfiles ? `profile "${profile.name}"` : 'AI Copilot'} (current: ${profile.model})`
+    });
+    if (!picked) {
+        return;
+    }
+
+    const modelId = picked.manual
+        ? await vscode.window.showInputBox({ prompt: 'Model name', value: profile.model })
+        : picked.modelId;
+    if (!modelId) {
+        return;
+    }
+
+    if (models.length > 0 && !models.some(model => model.id === modelId)) {
+        vscode.window.showWarningMessage(`Model "${modelId}" is not served by ${profile.serverUrl}; requests may fail.`);
+    }
+
+    if (hasProfiles) {
+        const scope = findProfileScope(profile.name);
+        if (!scope) {
+            vscode.window.showErrorMessage(`Could not find the settings that define profile "${profile.name}"`);
+            return;
+        }
+
+        const contextLength = models.find(model => model.id === modelId)?.contextLength;
+        const profiles = scope.profiles.map(entry => entry.name === profile.name
+            ? { ...entry, model: modelId, ...(contextLength ? { contextWindow: contextLength } : {}) }
+            : entry
+        );
+        await scope.config.update('profiles', profiles, scope.target);
+    } else {
+        const target = await pickConfigurationTarget();
+        if (target === undefined) {
+            return;
+        }
+        await config.update('model', modelId, target);
+    }
+
+    vscode.window.showInformationMessage(`AI Copilot model set to ${modelId}`);
+}
+
+async function pickProfile(): Promise<ModelProfile | undefined> {
+    const current = getActiveProfile('completion');
+    const picked = await vscode.window.showQuickPick(
+        getProfiles('completion').map(profile => ({
+            label: `${profile.name === current.name ? '$(check) ' : ''}${profile.name}`,
+            description: `${profile.model} @ ${profile.serverUrl}`,
+            profile
+        })),
+        { placeHolder: 'Select the profile to change the model of' }
+    );
+    return picked?.profile;
+}
+
+// Profiles are an array, so the most specific settings that define one replace the others. Only that
+// scope's array is changed: writing the effective array elsewhere would either be shadowed or copy
+// user profiles (and their API keys) into the workspace settings. Folder settings are those of the
+// active editor's folder, or of the first folder when no editor is open.
+function findProfileScope(
+    name: string
+): { config: vscode.WorkspaceConfiguration; target: vscode.ConfigurationTarget; profiles: any[] } | undefined {
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    const folder = (activeUri && vscode.workspace.getWorkspaceFolder(activeUri)) || vscode.workspace.workspaceFolders?.[0];
+    const config = vscode.workspace.getConfiguration('aiCopilot', folder?.uri);
+    const inspected = config.inspect<any[]>('profiles');
+    const scopes: Array<[vscode.ConfigurationTarget, any[] | undefined]> = [
+        [vscode.ConfigurationTarget.WorkspaceFolder, inspected?.workspaceFolderValue],
+        [vscode.ConfigurationTarget.Workspace, inspected?.workspaceValue],
+        [vscode.ConfigurationTarget.Global, inspected?.globalValue]
+    ];
+
+    for (const [target, profiles] of scopes) {
+        if (profiles && profiles.some(entry => entry && entry.name === name)) {
+            return { config, target, profiles };
+        }
+    }
+    return undefined;
+}
+
+async function pickConfigurationTarget(): Promise<vscode.ConfigurationTarget | undefined> {
+    if (!vscode.workspace.workspaceFolders) {
+        return vscode.ConfigurationTarget.Global;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        [
+            { label: 'Workspace Settings', target: vscode.ConfigurationTarget.Workspace },
+            { label: 'User Settings', target: vscode.ConfigurationTarget.Global }
+        ],
+        { placeHolder: 'Where should the model be saved?' }
+    );
+    return picked?.target;
+}
@@ -0,0 +1,338 @@
+// multiFileEdit.ts
+import * as vscode from 'vscode';
+import { CodeBlockApplier } from './codeBlockApplier';
+
+// One change to one file, from a SEARCH/REPLACE block or a unified diff hunk. An empty search
+// creates the file, or appends to it when it exists.
+export interface EditBlock {
+    file: string;
+    search: string;
+    replace: string;
+    lineHint?: number;      // 1-based line a diff hunk claims to start at, used to pick between matches
+    deleteFile?: boolean;
+}
+
+export interface EditFailure {
+    file: string;
+    search: string;
+    reason: string;
+}
+
+export interface PreparedEdit {
+    edit: vscode.WorkspaceEdit;
+    changeCount: number;
+    failures: EditFailure[];
+}
+
+interface Match {
+    start: number;
+    end: number;
+    replace: string;
+}
+
+// Tells the model how to answer in edit mode
+export const EDIT_FORMAT_INSTRUCTIONS = `You can edit files in the user's workspace. Briefly explain the change, then write each edit as the workspace-relative file path on its own line, followed by a fenced code block with one or more SEARCH/REPLACE blocks:
+
+src/example.ts
+\`\`\`typescript
+<<<<<<< SEARCH
+the exact lines to replace, copied from the current file
+=======
+the new lines
+>>>>>>> REPLACE
+\`\`\`
+
+The SEARCH part must match the current file exactly, including indentation and comments, and contain enough lines to be unique in the file. Keep blocks small: only the lines that change plus a little context. To create a file, use an empty SEARCH part. Unified diffs in \`\`\`diff blocks with "--- a/path" and "+++ b/path" headers are accepted too.`;
+
+const SEARCH_MARKER = /^<{5,9} SEARCH\s*$/;
+const DIVIDER_MARKER = /^={5,9}\s*$/;
+const REPLACE_MARKER = /^>{5,9} REPLACE\s*$/;
+const FENCE = /^\s*(`{3,}|~{3,})/;
+
+// Finds the SEARCH/REPLACE blocks and unified diffs in a model answer
+export function parseEditBlocks(text: string): EditBlock[] {
+    const lines = text.split(/\r?\n/);
+    const blocks: EditBlock[] = [];
+    let pathCandidate: string | undefined;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        if (SEARCH_MARKER.test(line)) {
+            const search: string[] = [];
+            const replace: string[] = [];
+            let target = search;
+            for (i++; i < lines.length && !REPLACE_MARKER.test(lines[i]); i++) {
+                if (target === search && DIVIDER_MARKER.test(lines[i])) {
+                    target = replace;
+                } else {
+                    target.push(lines[i]);
+                }
+            }
+            blocks.push({ file: pathCandidate || '', search: search.join('\n'), replace: replace.join('\n') });
+            continue;
+        }
+
+        if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+            i = parseDiffFile(lines, i, blocks) - 1;
+            continue;
+        }
+
+        // The file path is the last path-like line before a block; fences don't reset it
+        if (!FENCE.test(line) && line.trim()) {
+            const candidate = line.trim()
+                .replace(/^#+\s*/, '')
+                .replace(/^(file|path):\s*/i, '')
+                .replace(/^[*`"']+|[*`"':]+$/g, '');
+            if (candidate && !/\s/.test(candidate)) {
+                pathCandidate = candidate;
+            }
+        }
+    }
+
+    return blocks;
+}
+
+// Parses the diff of one file starting at its "---" line; returns the index of the first line after it
+function parseDiffFile(lines: string[], start: number, blocks: EditBlock[]): number {
+    const oldPath = parseDiffPath(lines[start].substring(4));
+    const newPath = parseDiffPath(lines[start + 1].substring(4));
+    const file = oldPath || newPath || '';
+
+    if (!newPath) {
+        blocks.push({ file, search: '', replace: '', deleteFile: true });
+    }
+
+    let i = start + 2;
+    while (i < lines.length && lines[i].startsWith('@@')) {
+        const header = lines[i].match(/^@@ -(\d+)/);
+        const search: string[] = [];
+        const replace: string[] = [];
+        for (i++; i < lines.length; i++) {
+            const line = lines[i];
+            if (line.startsWith('@@') || line.startsWith('--- ') || line.startsWith('diff ') || FENCE.test(line)) {
+                break;
+            }
+            if (line.startsWith('-')) {
+                search.push(line.substring(1));
+            } else if (line.startsWith('+')) {
+                replace.push(line.substring(1));
+            } else if (line.startsWith(' ') || line === '') {
+                // Models often drop the leading space of empty context lines
+                search.push(line.substring(1));
+                replace.push(line.substring(1));
+            } else if (!line.startsWith('\\')) {
+                break;
+            }
+        }
+
+        if (newPath) {
+            blocks.push({
+                file,
+                search: oldPath ? trimTrailingEmptyLines(search).join('\n') : '',
+                replace: trimTrailingEmptyLines(replace).join('\n'),
+                lineHint: header ? Number(header[1]) : undefined
+            });
+        }
+    }
+    return i;
+}
+
+// "a/src/x.ts", "b/src/x.ts\t2024-01-01 ..." -> "src/x.ts"; undefined for /dev/null
+function parseDiffPath(text: string): string | undefined {
+    const path = text.split('\t')[0].trim();
+    if (path === '/dev/null') {
+        return undefined;
+    }
+    return path.replace(/^[ab]\//, '');
+}
+
+function trimTrailingEmptyLines(lines: string[]): string[] {
+    let end = lines.length;
+    while (end > 0 && lines[end - 1].trim() === '') {
+        end--;
+    }
+    return lines.slice(0, end);
+}
+
+// Turns parsed edit blocks into one WorkspaceEdit whose entries need confirmation, so VS Code
+// shows them in the refactor preview. Blocks that can't be placed are returned as failures.
+export class MultiFileEditApplier {
+    constructor(private readonly codeBlockApplier: CodeBlockApplier) {}
+
+    // Without needsConfirmation the edit applies directly, for changes the user approved already
+    public async prepare(blocks: EditBlock[], needsConfirmation: boolean = true): Promise<PreparedEdit> {
+        const metadata: vscode.WorkspaceEditEntryMetadata = { label: 'AI Copilot chat edits', needsConfirmation };
+        const edit = new vscode.WorkspaceEdit();
+        const failures: EditFailure[] = [];
+        let changeCount = 0;
+
+        const byFile = new Map<string, EditBlock[]>();
+        for (const block of blocks) {
+            if (!block.file) {
+                failures.push({ file: '(unknown)', search: block.search, reason: 'the file path is missing before the block' });
+                continue;
+            }
+            byFile.set(block.file, [...(byFile.get(block.file) || []), block]);
+        }
+
+        for (const [file, fileBlocks] of byFile) {
+            const uri = await this.codeBlockApplier.resolveWorkspaceFile(file);
+
+            if (!uri) {
+                const newUri = this.getNewFileUri(file);
+                const content = fileBlocks.filter(block => !block.search && !block.deleteFile).map(block => block.replace).join('\n');
+                if (!newUri || fileBlocks.some(block => block.search || block.deleteFile)) {
+                    fileBlocks.forEach(block => failures.push({ file, search: block.search, reason: 'the file does not exist' }));
+                    continue;
+                }
+                edit.createFile(newUri, { ignoreIfExists: true }, metadata);
+                edit.insert(newUri, new vscode.Position(0, 0), content.endsWith('\n') ? content : `${content}\n`, metadata);
+                changeCount++;
+                continue;
+            }
+
+            if (fileBlocks.some(block => block.deleteFile)) {
+                edit.deleteFile(uri, { ignoreIfNotExists: true }, metadata);
+                changeCount++;
+                continue;
+            }
+
+            const document = await vscode.workspace.openTextDocument(uri);
+            const matches = this.matchBlocks(document, fileBlocks, file, failures);
+            for (const match of matches) {
+                edit.replace(uri, new vscode.Range(document.positionAt(match.start), document.positionAt(match.end)), match.replace, metadata);
+            }
+            changeCount += matches.length;
+        }
+
+        return { edit, changeCount, failures };
+    }
+
+    // Places every block in the original text; blocks that overlap an earlier one fail
+    private matchBlocks(document: vscode.TextDocument, blocks: EditBlock[], file: string, failures: EditFailure[]): Match[] {
+        const text = document.getText();
+        const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+        const matches: Match[] = [];
+
+        for (const block of blocks) {
+            const search = block.search.replace(/\n/g, eol);
+            const replace = block.replace.replace(/\n/g, eol);
+
+            if (!search.trim()) {
+                // Append to the existing file
+                const separator = text.length === 0 || text.endsWith(eol) ? '' : eol;
+                matches.push({ start: text.length, end: text.length, replace: separator + replace + eol });
+                continue;
+            }
+
+            const match = this.locate(text, search, replace, eol, block.lineHint);
+            if (typeof match === 'string') {
+                failures.push({ file, search: block.search, reason: match });
+            } else if (matches.some(other => match.start < other.end && other.start < match.end)) {
+                failures.push({ file, search: block.search, reason: 'it overlaps another edit of the same file' });
+            } else {
+                matches.push(match);
+            }
+        }
+        return matches;
+    }
+
+    // Exact match first, then a line-by-line match that ignores indentation and trailing whitespace,
+    // re-indenting the replacement to the file. Returns the reason when the search can't be placed.
+    private locate(text: string, search: string, replace: string, eol: string, lineHint: number | undefined): Match | string {
+        const exact: number[] = [];
+        for (let index = text.indexOf(search); index !== -1; index = text.indexOf(search, index + 1)) {
+            exact.push(index);
+        }
+        if (exact.length > 0) {
+            const start = this.pickClosest(exact, index => this.lineOf(text, index), lineHint);
+            return start === undefined
+                ? `the SEARCH text matches ${exact.length} places; include more lines to make it unique`
+                : { start, end: start + search.length, replace };
+        }
+
+        const lines = text.split(eol);
+        const searchLines = trimTrailingEmptyLines(search.split(eol));
+        const normalized = (line: string) => line.trim();
+        const candidates: number[] = [];
+        for (let line = 0; line + searchLines.length <= lines.length; line++) {
+            if (searchLines.every((searchLine, offset) => normalized(lines[line + offset]) === normalized(searchLine))) {
+                candidates.push(line);
+            }
+        }
+        if (candidates.length === 0) {
+            return 'the SEARCH text was not found in the file';
+        }
+
+        const startLine = this.pickClosest(candidates, line => line + 1, lineHint);
+        if (startLine === undefined) {
+            return `the SEARCH text matches ${candidates.length} places; include more lines to make it unique`;
+        }
+
+        const lineOffset = (line: number) => lines.slice(0, line).reduce((sum, current) => sum + current.length + eol.length, 0);
+        const endLine = startLine + searchLines.length - 1;
+        return {
+            start: lineOffset(startLine),
+            end: lineOffset(endLine) + lines[endLine].length,
+            replace: this.reindent(replace, searchLines, lines.slice(startLine, endLine + 1), eol)
+        };
+    }
+
+    // The only candidate, or the one closest to the hinted line; undefined when ambiguous
+    private pickClosest(candidates: number[], lineOf: (candidate: number) => number, lineHint: number | undefined): number | undefined {
+        if (candidates.length === 1) {
+            return candidates[0];
+        }
+        if (lineHint === undefined) {
+            return undefined;
+        }
+        return candidates.reduce((best, candidate) =>
+            Math.abs(lineOf(candidate) - lineHint) < Math.abs(lineOf(best) - lineHint) ? candidate : best
+        );
+    }
+
+    // Shifts the replacement by the indentation difference between the search and the matched lines
+    private reindent(replace: string, searchLines: string[], matchedLines: string[], eol: string): string {
+        const firstIndex = searchLines.findIndex(line => line.trim());
+        if (firstIndex === -1) {
+            return replace;
+        }
+
+        const searchIndent = searchLines[firstIndex].match(/^\s*/)![0];
+        const fileIndent = matchedLines[firstIndex].match(/^\s*/)![0];
+        if (searchIndent === fileIndent) {
+            return replace;
+        }
+
+        return replace.split(eol)
+            .map(line => line.startsWith(searchIndent) ? fileIndent + line.substring(searchIndent.length) : line)
+            .join(eol);
+    }
+
+    private lineOf(text: string, index: number): number {
+        let line = 1;
+        for (let i = text.indexOf('\n'); i !== -1 && i < index; i = text.indexOf('\n', i + 1)) {
+            line++;
+        }
+        return line;
+    }
+
+    // New files go to the workspace folder named by the path's first segment, or the first folder
+    private getNewFileUri(file: string): vscode.Uri | undefined {
+        const folders = vscode.workspace.workspaceFolders || [];
+        const named = folders.find(folder => folders.length > 1 && file.startsWith(`${folder.name}/`));
+        if (named) {
+            return vscode.Uri.joinPath(named.uri, file.substring(named.name.length + 1));
+        }
+        return folders[0] ? vscode.Uri.joinPath(folders[0].uri, file) : undefined;
+    }
+}
+
+// The follow-up message that asks the model to redo the edits that failed
+export function describeEditFailures(failures: EditFailure[]): string {
+    const details = failures.map(failure =>
+        `- ${failure.file}: ${failure.reason}${failure.search ? `\n\`\`\`\n${failure.search}\n\`\`\`` : ''}`
+    );
+    return `${failures.length === 1 ? 'One of your edits' : `${failures.length} of your edits`} could not be applied:\n\n${details.join('\n\n')}\n\nThe current content of these files is attached. Resend only the edits that failed, with SEARCH parts copied exactly from the files.`;
+}
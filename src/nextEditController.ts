@@ -0,0 +1,139 @@
+// nextEditController.ts
+import * as vscode from 'vscode';
+
+export interface NextEdit {
+    range: vscode.Range;
+    text: string;
+}
+
+// Computes the smallest edit that turns the original region into the suggested one
+export function computeNextEdit(document: vscode.TextDocument, region: vscode.Range, suggestion: string): NextEdit | null {
+    const original = document.getText(region);
+    if (original === suggestion) {
+        return null;
+    }
+
+    const maxCommon = Math.min(original.length, suggestion.length);
+
+    let prefixLength = 0;
+    while (prefixLength < maxCommon && original[prefixLength] === suggestion[prefixLength]) {
+        prefixLength++;
+    }
+
+    let suffixLength = 0;
+    while (
+        suffixLength < maxCommon - prefixLength &&
+        original[original.length - 1 - suffixLength] === suggestion[suggestion.length - 1 - suffixLength]
+    ) {
+        suffixLength++;
+    }
+
+    const regionStart = document.offsetAt(region.start);
+    return {
+        range: new vscode.Range(
+            document.positionAt(regionStart + prefixLength),
+            document.positionAt(regionStart + original.length - suffixLength)
+        ),
+        text: suggestion.substring(prefixLength, suggestion.length - suffixLength)
+    };
+}
+
+// Expands the edit to start at the cursor and returns it if VS Code can render it as ghost text,
+// i.e. the replaced text is a prefix of the new text and nothing before the cursor changes
+export function toGhostTextEdit(document: vscode.TextDocument, edit: NextEdit, position: vscode.Position): NextEdit | null {
+    if (edit.range.start.isBefore(position) || edit.range.start.line !== position.line) {
+        return null;
+    }
+
+    const range = new vscode.Range(position, edit.range.end);
+    const text = document.getText(new vscode.Range(position, edit.range.start)) + edit.text;
+    const replaced = document.getText(range);
+
+    return text.startsWith(replaced) ? { range, text } : null;
+}
+
+// Shows edits that can't be rendered as ghost text (deletions, changes before the cursor)
+// as decorations, and applies them when the user presses Tab
+export class NextEditController implements vscode.Disposable {
+    public static readonly contextKey = 'aiCopilot.nextEditVisible';
+
+    private readonly deletionDecoration = vscode.window.createTextEditorDecorationType({
+        backgroundColor: new vscode.ThemeColor('diffEditor.removedTextBackground'),
+        textDecoration: 'line-through'
+    });
+    private readonly insertionDecoration = vscode.window.createTextEditorDecorationType({});
+    private readonly disposables: vscode.Disposable[] = [];
+    private current?: { editor: vscode.TextEditor; edit: NextEdit; version: number };
+
+    constructor() {
+        this.disposables.push(
+            vscode.window.onDidChangeTextEditorSelection(event => {
+                if (this.current && event.textEditor === this.current.editor) {
+                    this.clear();
+                }
+            }),
+            vscode.workspace.onDidChangeTextDocument(event => {
+                if (this.current && event.document === this.current.editor.document) {
+                    this.clear();
+                }
+            }),
+            vscode.window.onDidChangeActiveTextEditor(() => this.clear())
+        );
+    }
+
+    public show(editor: vscode.TextEditor, edit: NextEdit) {
+        this.clear();
+        this.current = { editor, edit, version: editor.document.version };
+
+        if (!edit.range.isEmpty) {
+            editor.setDecorations(this.deletionDecoration, [edit.range]);
+        }
+
+        if (edit.text) {
+            editor.setDecorations(this.insertionDecoration, [{
+                range: new vscode.Range(edit.range.end, edit.range.end),
+                renderOptions: {
+                    after: {
+                        contentText: edit.text.replace(/\r?\n/g, ' ⏎ '),
+                        color: new vscode.ThemeColor('editorGhostText.foreground'),
+                        backgroundColor: new vscode.ThemeColor('diffEditor.insertedTextBackground'),
+                        fontStyle: 'italic'
+                    }
+                }
+            }]);
+        }
+
+        vscode.commands.executeCommand('setContext', NextEditController.contextKey, true);
+    }
+
+    public async accept() {
+        const current = this.current;
+        this.clear();
+
+        if (!current || current.editor.document.version !== current.version) {
+            return;
+        }
+
+        await current.editor.edit(editBuilder => {
+            editBuilder.replace(current.edit.range, current.edit.text);
+        });
+    }
+
+    public clear() {
+        if (!this.current) {
+            return;
+        }
+
+        this.current.editor.setDecorations(this.deletionDecoration, []);
+        this.current.editor.setDecorations(this.insertionDecoration, []);
+        this.current = undefined;
+        vscode.commands.executeCommand('setContext', NextEditController.contextKey, false);
+    }
+
+    public dispose() {
+        this.clear();
+        this.deletionDecoration.dispose();
+        this.insertionDecoration.dispose();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
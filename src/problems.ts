@@ -0,0 +1,39 @@
+// problems.ts
+import * as vscode from 'vscode';
+
+const MAX_PROBLEMS = 100;
+
+// "Line N (Severity [source code]): message", with only the first line of the message unless
+// fullMessage is set
+export function describeDiagnostic(diagnostic: vscode.Diagnostic, fullMessage: boolean = false): string {
+    const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+    const source = [diagnostic.source, code].filter(part => part !== undefined && part !== '').join(' ');
+    const message = fullMessage ? diagnostic.message : diagnostic.message.split('\n')[0];
+    return `Line ${diagnostic.range.start.line + 1} (${vscode.DiagnosticSeverity[diagnostic.severity]}${source ? ` [${source}]` : ''}): ${message}`;
+}
+
+// Errors and warnings grouped by file, at most MAX_PROBLEMS of them. lines (1-based, inclusive)
+// keeps only the problems touching that range.
+export function describeProblems(
+    entries: Array<[vscode.Uri, vscode.Diagnostic[]]>,
+    lines?: { start: number; end: number }
+): string {
+    const output: string[] = [];
+    let count = 0;
+    for (const [uri, diagnostics] of entries) {
+        const problems = diagnostics.filter(diagnostic =>
+            diagnostic.severity <= vscode.DiagnosticSeverity.Warning &&
+            (!lines || (diagnostic.range.end.line + 1 >= lines.start && diagnostic.range.start.line + 1 <= lines.end))
+        );
+        if (problems.length === 0 || count >= MAX_PROBLEMS) {
+            continue;
+        }
+
+        output.push(`${vscode.workspace.asRelativePath(uri)}:`);
+        for (const diagnostic of problems.slice(0, MAX_PROBLEMS - count)) {
+            output.push(`  ${describeDiagnostic(diagnostic)}`);
+            count++;
+        }
+    }
+    return output.length > 0 ? output.join('\n') : 'No errors or warnings are reported.';
+}
@@ -0,0 +1,119 @@
+// profiles.ts
+import * as vscode from 'vscode';
+import { BackendSettings, BackendType } from './llmClient';
+import { getKnownContextWindow } from './tokenizer';
+
+export type ProfileRole = 'completion' | 'chat';
+
+export interface ModelProfile {
+    name: string;
+    backend: BackendType;
+    serverUrl: string;
+    apiKey: string;
+    model: string;
+    temperature: number;
+    maxTokens: number;
+    contextWindow: number;
+}
+
+// Shape of an entry in aiCopilot.profiles - anything left out falls back to the top-level settings
+type ProfileSetting = Partial<ModelProfile> & { name: string };
+
+export const DEFAULT_PROFILE_NAME = 'Default';
+const DEFAULT_CONTEXT_WINDOW = 4096;
+
+// Builds a profile from the legacy top-level settings, which also provide defaults for
+// fields a configured profile leaves out
+function getBaseProfile(role: ProfileRole): ModelProfile {
+    const config = vscode.workspace.getConfiguration('aiCopilot');
+    const model = config.get<string>('model') || 'local-model';
+    return {
+        name: DEFAULT_PROFILE_NAME,
+        backend: config.get<BackendType>('backend') || 'openai',
+        serverUrl: config.get<string>('serverUrl') || 'http://localhost:1234',
+        apiKey: config.get<string>('apiKey') || '',
+        model,
+        temperature: role === 'chat' ? config.get<number>('chatTemperature', 0.7) : config.get<number>('temperature', 0.2),
+        maxTokens: role === 'chat' ? config.get<number>('chatMaxTokens', 2000) : config.get<number>('maxTokens', 500),
+        contextWindow: getKnownContextWindow(model) || DEFAULT_CONTEXT_WINDOW
+    };
+}
+
+export function getProfiles(role: ProfileRole): ModelProfile[] {
+    const config = vscode.workspace.getConfiguration('aiCopilot');
+    const base = getBaseProfile(role);
+    const configured = (config.get<ProfileSetting[]>('profiles') || []).filter(profile => profile && profile.name);
+
+    if (configured.length === 0) {
+        return [base];
+    }
+
+    // A profile that switches model without giving its context window gets the known size of that model
+    return configured.map(profile => ({
+        ...base,
+        ...profile,
+        contextWindow: profile.contextWindow
+            || (profile.model ? getKnownContextWindow(profile.model) : undefined)
+            || base.contextWindow
+    }));
+}
+
+// Resolves the profile assigned to a role, honouring per-language overrides for completions
+export function getActiveProfile(role: ProfileRole, languageId?: string): ModelProfile {
+    const config = vscode.workspace.getConfiguration('aiCopilot');
+    const profiles = getProfiles(role);
+
+    let name = config.get<string>(role === 'chat' ? 'chatProfile' : 'completionProfile') || '';
+    if (role === 'completion' && languageId) {
+        const languageProfiles = config.get<{ [languageId: string]: string }>('languageProfiles') || {};
+        name = languageProfiles[languageId] || name;
+    }
+
+    return profiles.find(profile => profile.name === name) || profiles[0];
+}
+
+export async function setActiveProfile(role: ProfileRole, name: string) {
+    const config = vscode.workspace.getConfiguration('aiCopilot');
+    const target = vscode.workspace.workspaceFolders
+        ? vscode.ConfigurationTarget.Workspace
+        : vscode.ConfigurationTarget.Global;
+
+    await config.update(role === 'chat' ? 'chatProfile' : 'completionProfile', name, target);
+}
+
+export function toBackendSettings(profile: ModelProfile): BackendSettings {
+    return {
+        type: profile.backend,
+        serverUrl: profile.serverUrl,
+        apiKey: profile.apiKey
+    };
+}
+
+// Quick-pick listing the profiles for both roles; picking one assigns it to that role
+export async function showProfilePicker() {
+    type ProfileItem = vscode.QuickPickItem & { role?: ProfileRole; profileName?: string };
+    const items: ProfileItem[] = [];
+
+    for (const role of ['completion', 'chat'] as ProfileRole[]) {
+        const active = getActiveProfile(role);
+        items.push({ label: role === 'chat' ? 'Chat' : 'Completion', kind: vscode.QuickPickItemKind.Separator });
+
+        for (const profile of getProfiles(role)) {
+            items.push({
+                label: `${profile.name === active.name ? '$(check) ' : ''}${profile.name}`,
+                description: `${profile.model} @ ${profile.serverUrl}`,
+                role,
+                profileName: profile.name
+            });
+        }
+    }
+
+    const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Select the model profile for completions or chat'
+    });
+
+    if (picked && picked.role && picked.profileName) {
+        await setActiveProfile(picked.role, picked.profileName);
+        vscode.window.showInformationMessage(`AI Copilot ${picked.role} profile: ${picked.profileName}`);
+    }
+}
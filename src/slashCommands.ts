@@ -0,0 +1,197 @@
+// slashCommands.ts
+import * as vscode from 'vscode';
+
+// Workspace file where teams define their own commands, relative to each workspace folder
+export const SLASH_COMMANDS_FILE = '.vscode/ai-copilot-commands.json';
+
+export interface SlashCommand {
+    name: string;
+    description: string;
+    // What is attached when the message has no attachments: the selection (or the file when
+    // nothing is selected), the whole active file, or nothing
+    attach: 'selection' | 'file' | 'none';
+    // Placeholders: {{input}} (text typed after the command), {{language}}, {{file}} and {{diagnostics}}
+    template?: string;
+    // Handled by the chat itself instead of being sent to the model
+    action?: 'clear' | 'new';
+    source: 'builtin' | 'workspace';
+}
+
+export interface SlashCommandInvocation {
+    command: SlashCommand;
+    input: string;
+}
+
+export interface TemplateVariables {
+    input: string;
+    language: string;
+    file: string;
+    diagnostics: string;
+}
+
+// Task prompts shared by the slash commands and the editor actions, so both ask for the same thing
+export const CODE_PROMPTS = {
+    explain: 'Explain what the attached {{language}} code from {{file}} does: its purpose, how it works step by step, and anything surprising or error-prone about it.',
+    tests: 'Write unit tests for the attached {{language}} code from {{file}}. Use the test framework the code already suggests, otherwise the most common one for {{language}}. Cover the normal cases, edge cases and error handling.',
+    doc: 'Add documentation comments to the attached {{language}} code from {{file}}, using the doc comment style usual for {{language}} (for example JSDoc or docstrings). Describe parameters, return values and thrown errors. Do not change the code itself.\n\n{{input}}\n\nReply with the complete documented code in a single code block.'
+};
+
+const BUILTIN_COMMANDS: SlashCommand[] = [
+    {
+        name: 'explain',
+        description: 'Explain how the selected code works',
+        attach: 'selection',
+        template: CODE_PROMPTS.explain,
+        source: 'builtin'
+    },
+    {
+        name: 'fix',
+        description: 'Fix the problems in the selected code',
+        attach: 'selection',
+        template: 'Find and fix the bugs in the attached {{language}} code from {{file}}.\n\nProblems reported by the compiler or linter:\n{{diagnostics}}\n\n{{input}}\n\nReply with the corrected code in a single code block, followed by a short explanation of each fix.',
+        source: 'builtin'
+    },
+    {
+        name: 'tests',
+        description: 'Generate unit tests for the selected code',
+        attach: 'selection',
+        template: CODE_PROMPTS.tests,
+        source: 'builtin'
+    },
+    {
+        name: 'doc',
+        description: 'Add documentation comments to the selected code',
+        attach: 'selection',
+        template: CODE_PROMPTS.doc,
+        source: 'builtin'
+    },
+    {
+        name: 'review',
+        description: 'Review the selected code or the current file',
+        attach: 'selection',
+        template: 'Review the attached {{language}} code from {{file}} like a careful senior reviewer. Point out bugs, edge cases, security problems, performance issues and unclear naming or structure, most important first, and suggest concrete changes.\n\n{{input}}',
+        source: 'builtin'
+    },
+    {
+        name: 'clear',
+        description: 'Clear the current conversation',
+        attach: 'none',
+        action: 'clear',
+        source: 'builtin'
+    },
+    {
+        name: 'new',
+        description: 'Start a new conversation',
+        attach: 'none',
+        action: 'new',
+        source: 'builtin'
+    }
+];
+
+// Built-in slash commands plus the ones defined in the workspace command file, which is reloaded
+// whenever it changes. Workspace commands may replace built-in prompts but not /clear and /new.
+export class SlashCommandRegistry implements vscode.Disposable {
+    private commands: SlashCommand[] = BUILTIN_COMMANDS;
+    private readonly watcher: vscode.FileSystemWatcher;
+    private readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
+    public readonly onDidChange = this.onDidChangeEmitter.event;
+
+    constructor() {
+        this.watcher = vscode.workspace.createFileSystemWatcher(`**/${SLASH_COMMANDS_FILE}`);
+        this.watcher.onDidCreate(() => this.reload());
+        this.watcher.onDidChange(() => this.reload());
+        this.watcher.onDidDelete(() => this.reload());
+        this.reload();
+    }
+
+    public getCommands(): SlashCommand[] {
+        return this.commands;
+    }
+
+    // "/name rest of the message" -> the command and the rest; undefined for unknown commands,
+    // which are sent as plain text
+    public parse(text: string): SlashCommandInvocation | undefined {
+        const match = text.trim().match(/^\/([\w-]+)(?:\s+([\s\S]*))?$/);
+        if (!match) {
+            return undefined;
+        }
+
+        const command = this.commands.find(entry => entry.name === match[1]);
+        return command ? { command, input: (match[2] || '').trim() } : undefined;
+    }
+
+    public async reload() {
+        const custom: SlashCommand[] = [];
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            const uri = vscode.Uri.joinPath(folder.uri, SLASH_COMMANDS_FILE);
+            let text: string;
+            try {
+                text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+            } catch {
+                continue;   // No command file in this folder
+            }
+
+            try {
+                custom.push(...this.parseCommandFile(text, vscode.workspace.asRelativePath(uri)));
+            } catch (error) {
+                vscode.window.showWarningMessage(`Ignoring ${vscode.workspace.asRelativePath(uri)}: ${error instanceof Error ? error.message : error}`);
+            }
+        }
+
+        // The first folder defining a name wins; built-in prompts can be replaced, built-in actions can't
+        const commands = BUILTIN_COMMANDS.map(builtin =>
+            builtin.action ? builtin : custom.find(entry => entry.name === builtin.name) || builtin
+        );
+        for (const entry of custom) {
+            if (!commands.some(command => command.name === entry.name)) {
+                commands.push(entry);
+            }
+        }
+
+        this.commands = commands;
+        this.onDidChangeEmitter.fire();
+    }
+
+    public dispose() {
+        this.watcher.dispose();
+        this.onDidChangeEmitter.dispose();
+    }
+
+    // { "commands": [{ "name": "perf", "description": "...", "prompt": "...", "attach": "selection" }] }
+    private parseCommandFile(text: string, fileName: string): SlashCommand[] {
+        const parsed = JSON.parse(text);
+        if (!parsed || !Array.isArray(parsed.commands)) {
+            throw new Error('expected an object with a "commands" array');
+        }
+
+        const commands: SlashCommand[] = [];
+        for (const entry of parsed.commands) {
+            if (!entry || typeof entry.name !== 'string' || !/^[\w-]+$/.test(entry.name) || typeof entry.prompt !== 'string') {
+                vscode.window.showWarningMessage(`Skipping a command in ${fileName}: every command needs a "name" (letters, digits, _ or -) and a "prompt"`);
+                continue;
+            }
+
+            commands.push({
+                name: entry.name,
+                description: typeof entry.description === 'string' ? entry.description : entry.prompt.split('\n')[0],
+                attach: ['selection', 'file', 'none'].includes(entry.attach) ? entry.attach : 'selection',
+                template: entry.prompt,
+                source: 'workspace'
+            });
+        }
+        return commands;
+    }
+}
+
+// Fills in the placeholders; text typed after a command without an {{input}} placeholder is appended
+export function expandTemplate(template: string, variables: TemplateVariables): string {
+    let expanded = template;
+    if (variables.input && !template.includes('{{input}}')) {
+        expanded += '\n\n{{input}}';
+    }
+
+    return expanded
+        .replace(/\{\{(input|language|file|diagnostics)\}\}/g, (_, name: keyof TemplateVariables) => variables[name])
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
@@ -0,0 +1,152 @@
+// snippetRetriever.ts
+import * as vscode from 'vscode';
+import { ViewedSnippet } from './contextService';
+
+interface SnippetWindow {
+    startLine: number;
+    endLine: number;
+    tokens: Set<string>;
+}
+
+interface IndexedDocument {
+    version: number;
+    windows: SnippetWindow[];
+}
+
+interface ScoredWindow {
+    document: vscode.TextDocument;
+    window: SnippetWindow;
+    score: number;
+}
+
+// Languages that can usefully borrow snippets from each other
+const LANGUAGE_FAMILIES: string[][] = [
+    ['javascript', 'typescript', 'javascriptreact', 'typescriptreact', 'vue', 'svelte'],
+    ['c', 'cpp', 'objective-c', 'objective-cpp'],
+    ['html', 'css', 'scss', 'less']
+];
+
+// Finds the windows of other open editors most similar to the code around the cursor, the way
+// Copilot's neighboring-tabs context works: fixed-size windows slide over each document and are
+// scored by the Jaccard similarity of their identifier sets against the query window.
+export class SnippetRetriever {
+    private index: Map<string, IndexedDocument> = new Map();
+
+    constructor(
+        private readonly windowSize: number = 20,
+        private readonly windowStep: number = 10,
+        private readonly maxDocumentLines: number = 10000
+    ) {}
+
+    public retrieve(document: vscode.TextDocument, position: vscode.Position, maxSnippets: number = 3): ViewedSnippet[] {
+        const queryStart = Math.max(0, position.line - this.windowSize);
+        const query = this.tokenize(document.getText(new vscode.Range(queryStart, 0, position.line, position.character)));
+        if (query.size === 0) {
+            return [];
+        }
+
+        const candidates: ScoredWindow[] = [];
+        for (const neighbor of this.getNeighborDocuments(document)) {
+            // Only the best window of each document, so one large file doesn't crowd out the others
+            let best: ScoredWindow | undefined;
+            for (const window of this.getWindows(neighbor)) {
+                const score = this.jaccard(query, window.tokens);
+                if (score > 0 && (!best || score > best.score)) {
+                    best = { document: neighbor, window, score };
+                }
+            }
+            if (best) {
+                candidates.push(best);
+            }
+        }
+
+        return candidates
+            .sort((a, b) => b.score - a.score)
+            .slice(0, maxSnippets)
+            .map(({ document: neighbor, window }) => {
+                const range = new vscode.Range(window.startLine, 0, window.endLine, neighbor.lineAt(window.endLine).text.length);
+                return {
+                    timestamp: Date.now(),
+                    fileName: vscode.workspace.asRelativePath(neighbor.uri),
+                    content: neighbor.getText(range),
+                    range,
+                    language: neighbor.languageId
+                };
+            });
+    }
+
+    public forget(document: vscode.TextDocument) {
+        this.index.delete(document.uri.toString());
+    }
+
+    public clear() {
+        this.index.clear();
+    }
+
+    // Documents open in editor tabs, in the same language family as the current one
+    private getNeighborDocuments(current: vscode.TextDocument): vscode.TextDocument[] {
+        const openUris = new Set<string>();
+        for (const group of vscode.window.tabGroups.all) {
+            for (const tab of group.tabs) {
+                if (tab.input instanceof vscode.TabInputText) {
+                    openUris.add(tab.input.uri.toString());
+                }
+            }
+        }
+
+        return vscode.workspace.textDocuments.filter(document =>
+            document !== current &&
+            openUris.has(document.uri.toString()) &&
+            document.lineCount <= this.maxDocumentLines &&
+            this.isRelatedLanguage(current.languageId, document.languageId)
+        );
+    }
+
+    private isRelatedLanguage(a: string, b: string): boolean {
+        return a === b || LANGUAGE_FAMILIES.some(family => family.includes(a) && family.includes(b));
+    }
+
+    // Windows are cached per document and rebuilt only when the document version changes
+    private getWindows(document: vscode.TextDocument): SnippetWindow[] {
+        const key = document.uri.toString();
+        const cached = this.index.get(key);
+        if (cached && cached.version === document.version) {
+            return cached.windows;
+        }
+
+        const lines = document.getText().split(/\r?\n/);
+        const windows: SnippetWindow[] = [];
+        for (let start = 0; start < lines.length; start += this.windowStep) {
+            const end = Math.min(lines.length, start + this.windowSize);
+            windows.push({
+                startLine: start,
+                endLine: end - 1,
+                tokens: this.tokenize(lines.slice(start, end).join('\n'))
+            });
+            if (end === lines.length) {
+                break;
+            }
+        }
+
+        this.index.set(key, { version: document.version, windows });
+        return windows;
+    }
+
+    private tokenize(text: string): Set<string> {
+        return new Set(text.match(/[A-Za-z_$][A-Za-z0-9_$]*/g) || []);
+    }
+
+    private jaccard(a: Set<string>, b: Set<string>): number {
+        if (a.size === 0 || b.size === 0) {
+            return 0;
+        }
+
+        let intersection = 0;
+        for (const token of a) {
+            if (b.has(token)) {
+                intersection++;
+            }
+        }
+        return intersection / (a.size + b.size - intersection);
+    }
+}
@@ -0,0 +1,123 @@
+// tokenizer.ts
+import type { Tiktoken, TiktokenBPE, TiktokenEncoding } from 'js-tiktoken/lite';
+
+export interface Tokenizer {
+    readonly name: string;
+    countTokens(text: string): number;
+}
+
+// Rough estimate used when no tokenizer is known for the model: 1 token ≈ 4 characters
+class CharEstimateTokenizer implements Tokenizer {
+    readonly name = 'chars/4';
+
+    countTokens(text: string): number {
+        return Math.ceil(text.length / 4);
+    }
+}
+
+// Offline BPE tokenizer using the ranks bundled with js-tiktoken. The rank table of an encoding is
+// about 1-2 MB, so only the one needed is loaded (through js-tiktoken/lite, not the package entry
+// that bundles all of them), the first time a model of that family is used.
+class BpeTokenizer implements Tokenizer {
+    private encoding?: Tiktoken;
+
+    constructor(readonly name: TiktokenEncoding) {}
+
+    countTokens(text: string): number {
+        if (!this.encoding) {
+            const { Tiktoken } = require('js-tiktoken/lite') as typeof import('js-tiktoken/lite');
+            const ranks = require(`js-tiktoken/ranks/${this.name}`) as TiktokenBPE;
+            this.encoding = new Tiktoken(ranks);
+        }
+        // Prompts contain FIM and chat control tokens, count them as the special tokens they are
+        return this.encoding.encode(text, 'all').length;
+    }
+}
+
+interface TokenizerRegistration {
+    matches: (model: string) => boolean;
+    create: () => Tokenizer;
+}
+
+interface ContextWindowEntry {
+    pattern: RegExp;
+    tokens: number;
+}
+
+// Context window sizes of common model families, used when a profile doesn't set contextWindow
+const KNOWN_CONTEXT_WINDOWS: ContextWindowEntry[] = [
+    { pattern: /gpt-4o|gpt-4\.1|gpt-4-turbo|\bo[134]\b/, tokens: 128000 },
+    { pattern: /gpt-4/, tokens: 8192 },
+    { pattern: /gpt-3\.5/, tokens: 16385 },
+    { pattern: /llama-?3\.[1-3]|llama3\.[1-3]/, tokens: 131072 },
+    { pattern: /llama-?3/, tokens: 8192 },
+    { pattern: /codellama|code-llama/, tokens: 16384 },
+    { pattern: /qwen2\.5-coder|qwen3|qwen2\.5/, tokens: 32768 },
+    { pattern: /deepseek-coder-v2|deepseek-v[23]|deepseek-r1/, tokens: 131072 },
+    { pattern: /deepseek-coder/, tokens: 16384 },
+    { pattern: /starcoder2/, tokens: 16384 },
+    { pattern: /codestral/, tokens: 32768 },
+    { pattern: /mistral|mixtral/, tokens: 32768 },
+    { pattern: /gemma-?[23]/, tokens: 8192 },
+    { pattern: /phi-?3|phi-?4/, tokens: 16384 }
+];
+
+export const FALLBACK_TOKENIZER: Tokenizer = new CharEstimateTokenizer();
+
+// Picks a tokenizer per model family; later registrations take precedence over earlier ones
+export class TokenizerService {
+    private readonly registrations: TokenizerRegistration[] = [];
+    private readonly instances: Map<string, Tokenizer> = new Map();
+
+    constructor() {
+        const o200k = this.shared('o200k_base');
+        const cl100k = this.shared('cl100k_base');
+
+        // Llama 3, Qwen and DeepSeek use large byte-level BPE vocabularies close to cl100k
+        this.register(model => /gpt-4|gpt-3\.5|llama-?3|qwen|deepseek|text-embedding/.test(model), cl100k);
+        this.register(model => /gpt-4o|gpt-4\.1|\bo[134]\b/.test(model), o200k);
+    }
+
+    public register(matches: (model: string) => boolean, create: () => Tokenizer) {
+        this.registrations.unshift({ matches, create });
+    }
+
+    public getTokenizer(model: string): Tokenizer {
+        const name = model.toLowerCase();
+        const registration = this.registrations.find(entry => entry.matches(name));
+        if (!registration) {
+            return FALLBACK_TOKENIZER;
+        }
+
+        try {
+            const tokenizer = registration.create();
+            tokenizer.countTokens('');
+            return tokenizer;
+        } catch (error) {
+            console.warn('Failed to load tokenizer, falling back to estimate:', error);
+            return FALLBACK_TOKENIZER;
+        }
+    }
+
+    public countTokens(text: string, model: string): number {
+        return this.getTokenizer(model).countTokens(text);
+    }
+
+    private shared(encoding: TiktokenEncoding): () => Tokenizer {
+        return () => {
+            let tokenizer = this.instances.get(encoding);
+            if (!tokenizer) {
+                tokenizer = new BpeTokenizer(encoding);
+                this.instances.set(encoding, tokenizer);
+            }
+            return tokenizer;
+        };
+    }
+}
+
+export const tokenizerService = new TokenizerService();
+
+export function getKnownContextWindow(model: string): number | undefined {
+    const name = model.toLowerCase();
+    return KNOWN_CONTEXT_WINDOWS.find(entry => entry.pattern.test(name))?.tokens;
+}